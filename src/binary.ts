@@ -0,0 +1,143 @@
+import type { BinaryEncoding, Ctor } from './types.ts'
+
+const { Buffer } = globalThis as any // Node.js Buffer, if available
+
+/**
+ * Constructors of the binary types that are serialized as strings according to `options.binaryEncoding`.
+ */
+export const binaryCtors: Ctor[] = [
+	ArrayBuffer,
+	DataView,
+	Int8Array,
+	Uint8Array,
+	Uint8ClampedArray,
+	Int16Array,
+	Uint16Array,
+	Int32Array,
+	Uint32Array,
+	Float32Array,
+	Float64Array,
+	BigInt64Array,
+	BigUint64Array,
+	(globalThis as any).Float16Array,
+	Buffer,
+].filter(Boolean)
+
+/**
+ * Encodes a binary value (the bytes it views, for typed arrays and DataViews) as string.
+ */
+export function encodeBinary(
+	value: ArrayBuffer | ArrayBufferView,
+	encoding: BinaryEncoding,
+): string {
+	const bytes =
+		value instanceof ArrayBuffer
+			? new Uint8Array(value)
+			: new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+	return encodeBytes(bytes, encoding)
+}
+
+/**
+ * Decodes a string created by {@link encodeBinary} into an instance of the given binary type. Instances of the type are returned as they are.
+ */
+export function decodeBinary(
+	value: string | ArrayBuffer | ArrayBufferView,
+	ctor: any,
+	encoding: BinaryEncoding,
+): any {
+	if (value instanceof ctor) return value
+	const buffer = decodeBytes(value as string, encoding).buffer
+	if (ctor === ArrayBuffer) return buffer
+	if (ctor === Buffer) return Buffer.from(buffer)
+	return new ctor(buffer) // throws a RangeError if the byte length is not a multiple of the element size
+}
+
+/**
+ * Checks whether the given value is a string created by {@link encodeBinary} for the given binary type (i.e. a valid encoding of a whole number of elements).
+ */
+export function isEncodedBinary(
+	value: unknown,
+	ctor: any,
+	encoding: BinaryEncoding,
+): value is string {
+	if (typeof value != 'string') return false
+	const byteLength = getEncodedByteLength(value, encoding)
+	return (
+		byteLength !== undefined && byteLength % (ctor.BYTES_PER_ELEMENT ?? 1) == 0
+	)
+}
+
+function getEncodedByteLength(
+	value: string,
+	encoding: BinaryEncoding,
+): number | undefined {
+	switch (encoding) {
+		case 'hex':
+			return /^(?:[0-9a-fA-F]{2})*$/.test(value) ? value.length / 2 : undefined
+		case 'base64':
+			if (value.length % 4 != 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+				return undefined
+			}
+			return (value.length / 4) * 3 - value.match(/=*$/)![0].length
+		case 'base64url': {
+			const unpadded = value.replace(/={1,2}$/, '')
+			if (
+				!/^[A-Za-z0-9_-]*$/.test(unpadded) ||
+				unpadded.length % 4 == 1 ||
+				(unpadded !== value && value.length % 4 != 0)
+			) {
+				return undefined
+			}
+			return Math.floor((unpadded.length * 3) / 4)
+		}
+	}
+}
+
+// conversion of bytes to strings and back; uses the native implementations of TC39 proposal https://github.com/tc39/proposal-arraybuffer-base64 where available
+function encodeBytes(bytes: Uint8Array, encoding: BinaryEncoding): string {
+	const nativeBytes = bytes as any
+	if (encoding == 'hex') {
+		if (typeof nativeBytes.toHex == 'function') return nativeBytes.toHex()
+		return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+			'',
+		)
+	}
+	if (typeof nativeBytes.toBase64 == 'function') {
+		return nativeBytes.toBase64({
+			alphabet: encoding,
+			omitPadding: encoding == 'base64url',
+		})
+	}
+	let binaryStr = ''
+	for (let idx = 0; idx < bytes.length; idx += 0x8000) {
+		binaryStr += String.fromCharCode(...bytes.subarray(idx, idx + 0x8000)) // chunked to stay below the maximum number of arguments
+	}
+	const base64 = btoa(binaryStr)
+	return encoding == 'base64url'
+		? base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+		: base64
+}
+
+function decodeBytes(str: string, encoding: BinaryEncoding): Uint8Array {
+	const NativeUint8Array = Uint8Array as any
+	if (encoding == 'hex') {
+		if (typeof NativeUint8Array.fromHex == 'function') {
+			return NativeUint8Array.fromHex(str)
+		}
+		if (getEncodedByteLength(str, 'hex') === undefined) {
+			throw new RangeError('Invalid hex string')
+		}
+		const bytes = new Uint8Array(str.length / 2)
+		for (let idx = 0; idx < bytes.length; idx++) {
+			bytes[idx] = parseInt(str.slice(idx * 2, idx * 2 + 2), 16)
+		}
+		return bytes
+	}
+	if (typeof NativeUint8Array.fromBase64 == 'function') {
+		return NativeUint8Array.fromBase64(str, { alphabet: encoding })
+	}
+	const binaryStr = atob(
+		encoding == 'base64url' ? str.replace(/-/g, '+').replace(/_/g, '/') : str,
+	)
+	return Uint8Array.from(binaryStr, (char) => char.charCodeAt(0))
+}
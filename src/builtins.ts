@@ -0,0 +1,128 @@
+import type { SpecialValueEncoding } from './types.ts'
+
+/**
+ * Numbers that JSON can't represent, encoded as strings if `options.specialValueEncoding` is `'lossless'`.
+ */
+export const specialNumberStrings = ['NaN', 'Infinity', '-Infinity', '-0']
+
+/**
+ * Returns whether a number can't be represented in JSON without loss (NaN, Infinity, -Infinity or -0).
+ */
+export function isSpecialNumber(value: number): boolean {
+	return !Number.isFinite(value) || Object.is(value, -0)
+}
+
+/**
+ * Encodes a number that JSON can't represent as one of {@link specialNumberStrings}.
+ */
+export function encodeSpecialNumber(value: number): string {
+	return Object.is(value, -0) ? '-0' : String(value)
+}
+
+/**
+ * Decodes a number encoded by {@link encodeSpecialNumber}, other values are returned as is.
+ */
+export function decodeSpecialNumber(
+	value: unknown,
+	encoding: SpecialValueEncoding,
+): unknown {
+	return encoding == 'lossless' && isEncodedSpecialNumber(value)
+		? Number(value)
+		: value
+}
+
+/**
+ * Returns whether a value is one of {@link specialNumberStrings}.
+ */
+export function isEncodedSpecialNumber(value: unknown): value is string {
+	return typeof value == 'string' && specialNumberStrings.includes(value)
+}
+
+/**
+ * Parses a regular expression literal (e.g. `/ab+c/gi`) as produced by `RegExp.prototype.toString`.
+ */
+export function parseRegExp(value: string): RegExp {
+	const match = /^\/(.*)\/([a-z]*)$/s.exec(value)
+	if (!match) {
+		throw new SyntaxError(`Invalid regular expression literal: ${value}`)
+	}
+	return new RegExp(match[1], match[2])
+}
+
+const errorCtorsByName: Record<string, ErrorConstructor> = {
+	Error,
+	EvalError,
+	RangeError,
+	ReferenceError,
+	SyntaxError,
+	TypeError,
+	URIError,
+}
+
+/**
+ * Serializes an error as a plain object with `name`, `message`, `stack` and `cause` (if present), plus any own enumerable properties (e.g. `code`). Causes that lead back to an error already serialized (cycles) are left out.
+ */
+export function serializeError(error: Error): Record<string, unknown> {
+	return serializeErrorWithCauses(error, new Set())
+}
+
+function serializeErrorWithCauses(
+	error: Error,
+	visited: Set<Error>,
+): Record<string, unknown> {
+	visited.add(error)
+	const { name, message, stack } = error
+	const { cause, ...props } = error as any // own enumerable properties such as `code`
+	const isCycle = cause instanceof Error && visited.has(cause)
+	return {
+		name,
+		message,
+		...(stack !== undefined ? { stack } : {}),
+		...('cause' in error && !isCycle
+			? {
+					cause:
+						cause instanceof Error
+							? serializeErrorWithCauses(cause, visited) // restored by deserializeError
+							: cause,
+				}
+			: {}),
+		...props,
+	}
+}
+
+/**
+ * Recreates an error serialized by {@link serializeError}. Built-in error types (TypeError, RangeError, …) are restored by name, other names result in an `Error` with that name. Serialized errors nested in `cause` are restored as well.
+ */
+export function deserializeError(value: any): Error {
+	if (value instanceof Error) return value
+	const { name, message, stack, cause, ...props } = value
+	const ErrorCtor = Object.hasOwn(errorCtorsByName, name)
+		? errorCtorsByName[name]
+		: Error
+	const error = new ErrorCtor(
+		message,
+		'cause' in value
+			? { cause: isSerializedError(cause) ? deserializeError(cause) : cause }
+			: undefined,
+	)
+	for (const [key, propValue] of Object.entries(props)) {
+		if (key != '__proto__') (error as any)[key] = propValue
+	}
+	if (typeof name == 'string' && error.name != name) error.name = name
+	if (stack !== undefined) error.stack = stack
+	return error
+}
+
+/**
+ * Returns whether a value looks like an error serialized by {@link serializeError}.
+ */
+export function isSerializedError(value: unknown): boolean {
+	return (
+		typeof value == 'object' &&
+		value != null &&
+		Object.getPrototypeOf(value) === Object.prototype &&
+		typeof (value as any).message == 'string' &&
+		((value as any).name === undefined ||
+			typeof (value as any).name == 'string')
+	)
+}
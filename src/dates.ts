@@ -0,0 +1,154 @@
+import type { DateFormat } from './types.ts'
+
+/**
+ * Names of the Temporal types representing a date or point in time, which are serialized according to `options.dateFormat`. Other Temporal types are always serialized as ISO 8601 strings.
+ */
+export const temporalDateTypeNames = [
+	'Instant',
+	'ZonedDateTime',
+	'PlainDateTime',
+	'PlainDate',
+]
+
+/**
+ * Serializes a date in the given format. Invalid dates are serialized as null, like `Date.prototype.toJSON` does.
+ */
+export function formatDate(
+	value: Date,
+	format: DateFormat,
+): string | number | null {
+	const time = value.getTime()
+	if (isNaN(time)) return null
+	switch (format) {
+		case 'epochMilliseconds':
+			return time
+		case 'epochSeconds':
+			return Math.floor(time / 1000)
+		case 'date':
+			return value.toISOString().slice(0, 10)
+		default:
+			return value.toISOString()
+	}
+}
+
+/**
+ * Checks whether a value has exactly the form {@link formatDate} produces for the given format, e.g. to tell dates from other strings in unions.
+ */
+export function isFormattedDate(value: unknown, format: DateFormat): boolean {
+	switch (format) {
+		case 'epochMilliseconds':
+		case 'epochSeconds':
+			return Number.isInteger(value)
+		case 'date':
+			return (
+				typeof value == 'string' &&
+				/^[+-]?\d{4,6}-\d{2}-\d{2}$/.test(value) &&
+				!isNaN(new Date(value).getTime())
+			)
+		default:
+			return (
+				typeof value == 'string' &&
+				/^[+-]?\d{4,6}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/.test(value) &&
+				!isNaN(new Date(value).getTime())
+			)
+	}
+}
+
+const isoDatePattern =
+	/^[+-]?\d{4,6}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Parses a date serialized in the given format or as ISO 8601 string. Other strings are rejected, even if `new Date` would accept them (e.g. "Room 12").
+ * @throws RangeError if the value can't be parsed.
+ */
+export function parseDate(value: unknown, format: DateFormat): Date {
+	let date: Date | undefined
+	if (value instanceof Date) {
+		date = value
+	} else if (typeof value == 'number') {
+		date = new Date(format == 'epochSeconds' ? value * 1000 : value)
+	} else if (typeof value == 'string' && isoDatePattern.test(value)) {
+		date = new Date(value)
+	}
+	if (!date || isNaN(date.getTime())) throw new RangeError('Invalid date')
+	return date
+}
+
+/**
+ * Serializes a value of one of the Temporal types in the given format (see {@link temporalDateTypeNames}).
+ */
+export function formatTemporal(
+	value: any,
+	typeName: string,
+	format: DateFormat,
+): string | number {
+	if (format == 'iso' || !temporalDateTypeNames.includes(typeName)) {
+		return value.toString()
+	}
+	const zonedDateTime =
+		typeName == 'Instant'
+			? value.toZonedDateTimeISO('UTC')
+			: typeName == 'ZonedDateTime'
+				? value
+				: value.toZonedDateTime('UTC')
+	switch (format) {
+		case 'epochMilliseconds':
+			return zonedDateTime.epochMilliseconds
+		case 'epochSeconds':
+			return Math.floor(zonedDateTime.epochMilliseconds / 1000)
+		default:
+			return zonedDateTime.toPlainDate().toString()
+	}
+}
+
+/**
+ * Parses a value of one of the Temporal types serialized in the given format or as ISO 8601 string.
+ * @throws RangeError or TypeError if the value can't be parsed.
+ */
+export function parseTemporal(
+	value: unknown,
+	ctor: any,
+	typeName: string,
+	format: DateFormat,
+): any {
+	if (value instanceof ctor) return value
+	const { Temporal } = globalThis as any
+	const isDateType = temporalDateTypeNames.includes(typeName)
+	if (typeof value == 'number' && isDateType) {
+		const epochMilliseconds =
+			format == 'epochSeconds' ? Math.round(value * 1000) : value
+		return fromZonedDateTime(
+			Temporal.Instant.fromEpochMilliseconds(
+				epochMilliseconds,
+			).toZonedDateTimeISO('UTC'),
+			typeName,
+		)
+	}
+	if (typeof value != 'string') {
+		throw new TypeError(`Invalid value for Temporal.${typeName}`)
+	}
+	if (
+		format == 'date' &&
+		isDateType &&
+		/^[+-]?\d{4,6}-\d{2}-\d{2}$/.test(value)
+	) {
+		return fromZonedDateTime(
+			Temporal.PlainDate.from(value).toZonedDateTime('UTC'),
+			typeName,
+		)
+	}
+	return ctor.from(value)
+}
+
+function fromZonedDateTime(zonedDateTime: any, typeName: string): any {
+	switch (typeName) {
+		case 'Instant':
+			return zonedDateTime.toInstant()
+		case 'PlainDateTime':
+			return zonedDateTime.toPlainDateTime()
+		case 'PlainDate':
+			return zonedDateTime.toPlainDate()
+		default:
+			return zonedDateTime
+	}
+}
@@ -0,0 +1,138 @@
+import type { PropertyOrMapKey } from './types.ts'
+
+/**
+ * Machine-readable codes of errors thrown by JsonClassSerializer.
+ */
+export type JsonClassSerializerErrorCode =
+	| 'TYPE_RESOLUTION_FAILED'
+	| 'CLASS_NOT_FOUND'
+	| 'TYPE_NOT_ALLOWED'
+	| 'PLAIN_OBJECT_FOUND'
+	| 'INVALID_TYPE'
+	| 'INVALID_KEY'
+	| 'FORBIDDEN_KEY'
+	| 'INVALID_ENUM_VALUE'
+	| 'MISSING_PROPERTY'
+	| 'NULL_NOT_ALLOWED'
+	| 'UNSUPPORTED_VERSION'
+	| 'MISSING_MIGRATION'
+	| 'UNKNOWN_PROPERTY_CLASS'
+	| 'CIRCULAR_REFERENCE'
+	| 'INVALID_REFERENCE'
+	| 'INSTANTIATION_FAILED'
+	| 'LIMIT_EXCEEDED'
+	| 'INVALID_OPTION'
+	| 'DUPLICATE_CLASS_NAME'
+	| 'MULTIPLE_ERRORS'
+
+export interface JsonClassSerializerErrorDetails {
+	/**
+	 * Machine-readable code of the error.
+	 */
+	code: JsonClassSerializerErrorCode
+	/**
+	 * Path to the offending value relative to the root value (e.g. `['children', 0, 'name']`). Map keys / values are represented as tuples `[entryIndex, 0 | 1]`. Default: [] (root value)
+	 */
+	path?: PropertyOrMapKey[]
+	/**
+	 * Name of the class (or type) that was expected at {@link JsonClassSerializerErrorDetails.path | path}, if known.
+	 */
+	expectedType?: string
+	/**
+	 * Type of the value actually found at {@link JsonClassSerializerErrorDetails.path | path} (see {@link describeValueType}).
+	 */
+	actualType?: string
+}
+
+/**
+ * Base class of all errors thrown by JsonClassSerializer.
+ */
+export class JsonClassSerializerError extends Error {
+	readonly code: JsonClassSerializerErrorCode
+	readonly path: PropertyOrMapKey[]
+	readonly expectedType: string | undefined
+	readonly actualType: string | undefined
+
+	constructor(
+		message: string,
+		details: JsonClassSerializerErrorDetails,
+		options?: ErrorOptions,
+	) {
+		const path = details.path ?? []
+		super(
+			details.path ? `${message} (at ${formatPath(details.path)})` : message,
+			options,
+		)
+		this.name = new.target.name
+		this.code = details.code
+		this.path = path
+		this.expectedType = details.expectedType
+		this.actualType = details.actualType
+	}
+
+	/**
+	 * Path to the offending value as a JSONPath-like string (e.g. `$.children[0].name`).
+	 */
+	get pathString(): string {
+		return formatPath(this.path)
+	}
+}
+
+/**
+ * Error thrown while serializing a value.
+ */
+export class JsonSerializationError extends JsonClassSerializerError {}
+
+/**
+ * Error thrown while deserializing a value.
+ */
+export class JsonDeserializationError extends JsonClassSerializerError {}
+
+/**
+ * Error thrown at the end of deserialization if {@link JsonClassSerializerOptions.collectAllErrors | options.collectAllErrors} is set and any errors were encountered. The individual errors are available in {@link JsonClassSerializerAggregateError.errors | errors}.
+ */
+export class JsonClassSerializerAggregateError extends JsonClassSerializerError {
+	readonly errors: JsonClassSerializerError[]
+
+	constructor(errors: JsonClassSerializerError[]) {
+		super(
+			`${errors.length} error(s) occurred:\n${errors.map((error) => `- ${error.message}`).join('\n')}`,
+			{ code: 'MULTIPLE_ERRORS' },
+		)
+		this.errors = errors
+	}
+}
+
+/**
+ * Formats a path as a JSONPath-like string (e.g. `$.children[0].name`).
+ * @param path The path to format.
+ */
+export function formatPath(path: PropertyOrMapKey[]): string {
+	let str = '$'
+	for (const key of path) {
+		if (Array.isArray(key)) {
+			str += `[${key[0]}][${key[1]}]`
+		} else if (typeof key == 'number') {
+			str += `[${key}]`
+		} else if (typeof key == 'string' && /^[A-Za-z_$][\w$]*$/.test(key)) {
+			str += `.${key}`
+		} else {
+			str += `[${typeof key == 'symbol' ? key.toString() : JSON.stringify(key)}]`
+		}
+	}
+	return str
+}
+
+/**
+ * Describes the type of a value for error messages: `'null'`, `'undefined'`, `'array'`, `'object'` for plain objects, the class name for class instances, or the result of `typeof` for other values.
+ * @param value The value to describe.
+ */
+export function describeValueType(value: unknown): string {
+	if (value === null) return 'null'
+	if (Array.isArray(value)) return 'array'
+	if (typeof value == 'object') {
+		const ctor = Object.getPrototypeOf(value)?.constructor
+		return !ctor || ctor === Object ? 'object' : ctor.name || 'object'
+	}
+	return typeof value
+}
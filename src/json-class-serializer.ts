@@ -1,30 +1,71 @@
 import type {
 	Ctor,
+	CtorOrDescriptor,
 	CtorOrThunk,
+	DateFormat,
+	DeserializationCallOptions,
 	Deserialized,
 	EffectiveJsonClassSerializerOptions,
 	EntryOrKeyValue,
 	JsonClassData,
 	JsonClassSerializerOptions,
 	JsonProperty,
+	JsonSchema,
+	JsonTypeAdapter,
+	JsonTypeDescriptor,
 	KeyOrValue,
 	PropertyOrMapKey,
 } from './types.ts'
 import {
+	AnyType,
+	isTypeDescriptor,
 	propertyHasKeyCtor,
 	propertyHasValueCtor,
+	resolveDefaultValue,
 	resolveThunk,
 } from './types.ts'
 import {
+	builtInAdapterClassData,
 	classDataByCtor,
-	classDataByName,
 	ClassDataSymbol,
+	createAdapterClassData,
+	getAllProperties,
+	getClassData,
+	getClassRegistry,
+	getDiscriminatorForSubType,
+	getLifecycleHooks,
+	getPropertyValue,
+	JsonClassRegistry,
+	setPropertyValue,
+	testedAdapterClassData,
 } from './metadata.ts'
 import {
+	describeValueType,
+	JsonClassSerializerAggregateError,
+	JsonClassSerializerError,
+	JsonDeserializationError,
+	JsonSerializationError,
+} from './errors.ts'
+import type { JsonClassSerializerErrorDetails } from './errors.ts'
+import { JsonSchemaGenerator } from './json-schema.ts'
+import {
+	getEnumMembers,
 	getInObjectFromPath,
+	getSerializedPropertyName,
+	isForbiddenKey,
+	isPlainObject,
 	setInObjectFromPath,
 	DeleteSymbol,
 } from './utils.ts'
+import { encodeSpecialNumber, isSpecialNumber } from './builtins.ts'
+import { isFormattedDate } from './dates.ts'
+
+const primitiveTypeNames = new Map<unknown, string>([
+	[String, 'string'],
+	[Number, 'number'],
+	[Boolean, 'boolean'],
+	[BigInt, 'bigint'],
+])
 
 /**
  * JsonClassSeriallzer serves to serialize and deserialize class instances to and from JSON / plain objects.
@@ -45,15 +86,30 @@ export class JsonClassSerializer {
 	public static defaultOptions: EffectiveJsonClassSerializerOptions = {
 		classNameResolver: (ctor) => ctor.name,
 		serializationPropertyName: '#type',
+		versionPropertyName: '#version',
 		serializationClassResolver: undefined,
 		deserializationClassResolver: (obj, options) =>
 			obj[options.serializationPropertyName],
 		useGlobalClassRegistry: true,
+		classRegistry: undefined,
+		allowedTypes: undefined,
+		deniedTypes: undefined,
+		deserializationLimits: {},
 		additionalClassesToConsider: {},
 		failIfTypeResolutionFails: true,
 		failIfRootClassNotFound: false,
 		failIfPlainObjectsFound: false,
+		failIfForbiddenKeysFound: false,
+		validateOnDeserialization: false,
+		validateOnSerialization: 'off',
+		omitDefaultValues: false,
+		propertyNamingStrategy: undefined,
+		collectAllErrors: false,
 		mapSerializationStrategy: 'arrayOfEntries',
+		mapSerializationFallbackStrategy: 'fail',
+		binaryEncoding: 'base64',
+		specialValueEncoding: 'json',
+		dateFormat: 'iso',
 		prettyPrint: false,
 		circularDependencyReferencePropertyName: null,
 		circularDependencyLevelPropertyName: null,
@@ -76,6 +132,11 @@ export class JsonClassSerializer {
 		PropertyOrMapKey[]
 	>()
 	private rootSerializationObjRef: WeakRef<any> | undefined
+	private collectedDeserializationErrors: JsonClassSerializerError[] = []
+	private deserializedInstancesWithHooks: [any, JsonClassData][] = [] // to call @onDeserialized methods after deserialization is complete
+	private adapterClassDataByCtor = new Map<unknown, JsonClassData>()
+	private isComparingDefaultValue = false // skip lifecycle hooks while serializing values only to compare them with default values
+	private propertyDateFormat: DateFormat | undefined // date format of the property currently being (de)serialized, see JsonPropertyOptions.dateFormat
 
 	/**
 	 * Creates a new instance of JsonClassSerializer with the given options.
@@ -91,87 +152,185 @@ export class JsonClassSerializer {
 	 * Deserializes a JSON string into a class instance.
 	 * @param json The JSON string to deserialize.
 	 * @param ctor The constructor of the class to deserialize into. If not provided, the class will be determined from the contents of the JSON string, according to the rules specified in {@link JsonClassSerializer.options | options}.
-	 * @param failIfRootClassNotFound Whether to fail if the root class is not found during deserialization. Default: What is set in the options of JsonClassSerializer (default: true).
+	 * @param options Options overriding the {@link JsonClassSerializer.options | options} of this instance for this call, e.g. `{ allowedTypes: [Order, LineItem] }`, or whether to fail if the root class is not found during deserialization (see {@link JsonClassSerializerOptions.failIfRootClassNotFound | failIfRootClassNotFound}).
 	 * @returns The deserialized class instance.
 	 */
 	deserializeFromJson<T extends Ctor>(
 		json: string,
 		ctor?: T,
-		failIfRootClassNotFound?: boolean,
-	): InstanceType<T> {
-		const obj = JSON.parse(json)
-		const result = this.deserializeFromObject(
-			obj,
-			ctor,
-			failIfRootClassNotFound,
-		) as InstanceType<T>
-		if (this.options.circularDependencyLevelPropertyName) {
-			delete (result as any)[this.options.circularDependencyLevelPropertyName]
-		}
+		options?: boolean | DeserializationCallOptions,
+	): InstanceType<T>
+	/**
+	 * Deserializes a JSON string into a (possibly nested) collection or tuple.
+	 * @param json The JSON string to deserialize.
+	 * @param type The type descriptor of the collection, created using {@link jsonType} (e.g. `jsonType.array(Person)`).
+	 * @param options Options overriding the {@link JsonClassSerializer.options | options} of this instance for this call.
+	 * @returns The deserialized collection.
+	 */
+	deserializeFromJson<T>(
+		json: string,
+		type: JsonTypeDescriptor<T>,
+		options?: DeserializationCallOptions,
+	): T
+	deserializeFromJson(
+		json: string,
+		ctorOrType?: Ctor | JsonTypeDescriptor,
+		options?: boolean | DeserializationCallOptions,
+	): any {
+		return this.withCallOptions(
+			typeof options == 'boolean'
+				? { failIfRootClassNotFound: options }
+				: options,
+			() => {
+				const { maxJsonLength } = this.options.deserializationLimits
+				if (maxJsonLength !== undefined && json.length > maxJsonLength) {
+					throw new JsonDeserializationError(
+						`JSON exceeds the maximum length of ${maxJsonLength}`,
+						{
+							code: 'LIMIT_EXCEEDED',
+							path: [],
+							actualType: describeValueType(json),
+						},
+					)
+				}
+				const obj = JSON.parse(json)
+				const result = this.deserializeRoot(obj, ctorOrType)
+				if (this.options.circularDependencyLevelPropertyName) {
+					delete (result as any)[
+						this.options.circularDependencyLevelPropertyName
+					]
+				}
 
-		return result
+				return result
+			},
+		)
 	}
 
 	/**
 	 * Deserializes a plain object into a class instance.
 	 * @param value The JSON object to deserialize.
 	 * @param ctor The constructor of the class to deserialize into. If not provided, the class will be determined from the contents of the plain object, according to the rules specified in {@link JsonClassSerializer.options | options}.
-	 * @param failIfRootClassNotFound Whether to fail if the root class is not found during deserialization. Default: What is set in the options of JsonClassSerializer (default: true).
+	 * @param options Options overriding the {@link JsonClassSerializer.options | options} of this instance for this call, e.g. `{ allowedTypes: [Order, LineItem] }`, or whether to fail if the root class is not found during deserialization (see {@link JsonClassSerializerOptions.failIfRootClassNotFound | failIfRootClassNotFound}).
 	 * @returns The deserialized class instance.
 	 */
 	deserializeFromObject<Input extends any, T extends Ctor>(
 		value: Input,
 		ctor?: T,
-		failIfRootClassNotFound?: boolean,
-	): Deserialized<Input, T> {
-		this.encounteredReferencePathsInDeserialization = []
-		this.encounteredRootPathsInDeserialization = []
-		this.encounteredLevelPathsInDeserialization = []
-		this.encounteredInputObjectPathsInDeserialization = new Map()
-		const result = this.deserializeFromObjectInternal(
-			value,
-			[],
-			this.getClassDataByCtor(ctor),
-			failIfRootClassNotFound ?? this.options.failIfRootClassNotFound,
+		options?: boolean | DeserializationCallOptions,
+	): Deserialized<Input, T>
+	/**
+	 * Deserializes a plain object (usually an array) into a (possibly nested) collection or tuple.
+	 * @param value The JSON object to deserialize.
+	 * @param type The type descriptor of the collection, created using {@link jsonType} (e.g. `jsonType.map(String, Person)`).
+	 * @param options Options overriding the {@link JsonClassSerializer.options | options} of this instance for this call.
+	 * @returns The deserialized collection.
+	 */
+	deserializeFromObject<T>(
+		value: unknown,
+		type: JsonTypeDescriptor<T>,
+		options?: DeserializationCallOptions,
+	): T
+	deserializeFromObject(
+		value: unknown,
+		ctorOrType?: Ctor | JsonTypeDescriptor,
+		options?: boolean | DeserializationCallOptions,
+	): any {
+		return this.withCallOptions(
+			typeof options == 'boolean'
+				? { failIfRootClassNotFound: options }
+				: options,
+			() => this.deserializeRoot(value, ctorOrType),
 		)
-		this.replaceCircularReferences(result)
-		return result
 	}
 
 	/**
 	 * Serializes a class instance into a JSON string.
 	 * @param value The class instance to serialize.
+	 * @param options Options overriding the {@link JsonClassSerializer.options | options} of this instance for this call, e.g. `{ prettyPrint: true }`.
 	 * @returns The serialized JSON string.
 	 */
-	serializeToJson(value: any): string {
-		const obj = this.serializeToObject(value)
-		const space =
-			typeof this.options.prettyPrint == 'boolean'
-				? this.options.prettyPrint
-					? '\t'
-					: undefined
-				: this.options.prettyPrint
-		return JSON.stringify(obj, undefined, space)
+	serializeToJson(
+		value: any,
+		options?: Partial<JsonClassSerializerOptions>,
+	): string {
+		return this.withCallOptions(options, () => {
+			const obj = this.serializeToObject(value)
+			const space =
+				typeof this.options.prettyPrint == 'boolean'
+					? this.options.prettyPrint
+						? '\t'
+						: undefined
+					: this.options.prettyPrint
+			return JSON.stringify(obj, undefined, space)
+		})
 	}
 
 	/**
 	 * Serializes a class instance into a plain object.
 	 * @param value The class instance to serialize.
+	 * @param options Options overriding the {@link JsonClassSerializer.options | options} of this instance for this call, e.g. `{ circularDependencyReferencePropertyName: '#ref' }`.
 	 * @returns The serialized plain object.
 	 */
-	serializeToObject<T>(value: T): T {
-		this.encounteredObjectPathsInSerialization = new WeakMap()
-		if (value && typeof value == 'object') {
-			this.rootSerializationObjRef = new WeakRef(value)
-		}
-		const serialized = this.serializeToObjectInternal(
-			value,
-			[],
-			false,
-			undefined,
-		) as T
-		this.rootSerializationObjRef = undefined
-		return serialized
+	serializeToObject<T>(
+		value: T,
+		options?: Partial<JsonClassSerializerOptions>,
+	): T {
+		return this.withCallOptions(options, () => {
+			this.encounteredObjectPathsInSerialization = new WeakMap()
+			this.propertyDateFormat = undefined
+			if (value && typeof value == 'object') {
+				this.rootSerializationObjRef = new WeakRef(value)
+			}
+			const serialized = this.serializeToObjectInternal(
+				value,
+				[],
+				false,
+				undefined,
+			) as T
+			this.rootSerializationObjRef = undefined
+			return serialized
+		})
+	}
+
+	/**
+	 * Generates a JSON Schema (draft 2020-12) describing the JSON produced by this instance (respecting its {@link JsonClassSerializer.options | options}), e.g. for API documentation or consumers not using JsonClassSerializer.
+	 * @param ctor The class to generate the schema for. The schemas of the class and all classes it references are contained in `$defs`. If not provided, the returned schema only contains `$defs` with the schemas of all classes known to this instance (see {@link JsonClassSerializerOptions.additionalClassesToConsider | options.additionalClassesToConsider} and {@link JsonClassSerializerOptions.useGlobalClassRegistry | options.useGlobalClassRegistry}).
+	 * @returns The JSON Schema.
+	 */
+	toJsonSchema(ctor?: Ctor): JsonSchema {
+		return new JsonSchemaGenerator(
+			this.options,
+			this.adapterClassDataByCtor,
+		).generate(ctor)
+	}
+
+	/**
+	 * Registers a type adapter for this instance, to serialize and deserialize values of a type that can't be decorated, e.g. a class from a third-party library. Adapters registered for this instance take precedence over global ones (see {@link JsonClassSerializer.registerAdapter | JsonClassSerializer.registerAdapter}) and over classes decorated with `@jsonClass`.
+	 * @param ctor The constructor of the values handled by the adapter.
+	 * @param adapter The adapter.
+	 * @returns This instance, for chaining.
+	 */
+	registerAdapter<T>(
+		ctor: abstract new (...args: any[]) => T,
+		adapter: JsonTypeAdapter<T>,
+	): this {
+		this.adapterClassDataByCtor.set(ctor, createAdapterClassData(ctor, adapter))
+		return this
+	}
+
+	/**
+	 * Registers a type adapter for all instances of JsonClassSerializer (see {@link JsonClassSerializer.prototype.registerAdapter | registerAdapter}). The adapter can be found by its name only if {@link JsonClassSerializerOptions.useGlobalClassRegistry | options.useGlobalClassRegistry} is set.
+	 * @param ctor The constructor of the values handled by the adapter.
+	 * @param adapter The adapter.
+	 */
+	static registerAdapter<T>(
+		ctor: abstract new (...args: any[]) => T,
+		adapter: JsonTypeAdapter<T>,
+	): void {
+		const classData = createAdapterClassData(ctor, adapter)
+		classDataByCtor.set(ctor, classData)
+		JsonClassRegistry.global.add(classData)
+		if (adapter.test) testedAdapterClassData.push(classData)
 	}
 
 	// private serialization code
@@ -184,7 +343,22 @@ export class JsonClassSerializer {
 		asKeyOrValue: KeyOrValue = 'value',
 	): any {
 		if (value == null) return value
+		if (owningPropertyData?.type == 'union') {
+			owningPropertyData = this.getUnionMemberPropertyData(
+				value,
+				owningPropertyData,
+			)
+		}
+		if (owningPropertyData?.type == 'enum') {
+			return this.serializeEnumValue(value, owningPropertyData)
+		}
 		const type = typeof value
+		if (
+			type == 'number' &&
+			this.options.specialValueEncoding == 'lossless' &&
+			isSpecialNumber(value)
+		)
+			return encodeSpecialNumber(value)
 		if (type == 'string' || type === 'number' || type === 'boolean')
 			return value
 		if (this.encounteredObjectPathsInSerialization.has(value)) {
@@ -204,8 +378,13 @@ export class JsonClassSerializer {
 						const parentPath = path.slice(0, pathLen)
 						const parentValue = getInObjectFromPath(rootObj, parentPath)
 						if (parentValue === value) {
-							throw new Error(
-								`Circular reference detected at path ${JSON.stringify(path)}. To enable circular reference replacement, set the 'circularDependencyReferencePropertyName' option.`,
+							throw new JsonSerializationError(
+								`Circular reference detected. To enable circular reference replacement, set the 'circularDependencyReferencePropertyName' option.`,
+								{
+									code: 'CIRCULAR_REFERENCE',
+									path,
+									actualType: describeValueType(value),
+								},
 							)
 						}
 					}
@@ -246,8 +425,22 @@ export class JsonClassSerializer {
 				hasLevelBeenApplied,
 				owningPropertyData,
 			)
-		if (typeof value.toJSON == 'function' && !value.toJSON[ClassDataSymbol]) {
-			// check for toJSON[ClassDataSymbol] to avoid infinite recursion
+		if (owningPropertyData?.type == 'record' && isPlainObject(value))
+			return this.serializeRecord(
+				value,
+				path,
+				hasLevelBeenApplied,
+				owningPropertyData,
+			)
+		if (
+			typeof value.toJSON == 'function' &&
+			!value.toJSON[ClassDataSymbol] &&
+			!(
+				this.getClassDataByCtor(value.constructor) ??
+				this.findAdapterClassDataByTest(value)
+			)?.options?.serializer
+		) {
+			// check for toJSON[ClassDataSymbol] to avoid infinite recursion; custom serializers take precedence (e.g. for Node.js Buffer)
 			return this.serializeToObjectInternal(
 				value.toJSON(),
 				path,
@@ -274,15 +467,88 @@ export class JsonClassSerializer {
 		owningPropertyData: JsonProperty | undefined,
 	): any {
 		return value.map((item, idx) =>
-			this.serializeToObjectInternal(
+			this.serializeItem(
 				item,
 				path.concat(idx),
 				hasLevelBeenApplied,
-				owningPropertyData,
+				owningPropertyData?.type == 'array'
+					? this.getItemPropertyData(owningPropertyData.valueCtorOrThunk)
+					: owningPropertyData?.type == 'tuple'
+						? this.getItemPropertyData(
+								owningPropertyData.itemCtorsOrThunks[idx],
+							)
+						: owningPropertyData,
 			),
 		)
 	}
 
+	/**
+	 * Gets the options passed to the serializer, deserializer and validator functions of classes (see {@link JsonClassOptions.serializer}): the options of this instance, with the {@link JsonPropertyOptions.dateFormat | dateFormat} of the property currently being (de)serialized applied.
+	 */
+	private getClassFunctionOptions(): EffectiveJsonClassSerializerOptions {
+		const dateFormat = this.propertyDateFormat
+		return dateFormat && dateFormat != this.options.dateFormat
+			? { ...this.options, dateFormat }
+			: this.options
+	}
+
+	/**
+	 * Serializes an item of an array, set or map. `undefined` items are written as `{"#type":"undefined"}` if {@link JsonClassSerializerOptions.specialValueEncoding | options.specialValueEncoding} is `'lossless'`, instead of turning into null in JSON.
+	 */
+	private serializeItem(
+		item: any,
+		path: PropertyKey[],
+		hasLevelBeenApplied: boolean,
+		owningPropertyData: JsonProperty | undefined,
+		asKeyOrValue: KeyOrValue = 'value',
+	): any {
+		if (item === undefined && this.options.specialValueEncoding == 'lossless') {
+			return { [this.options.serializationPropertyName]: 'undefined' }
+		}
+		return this.serializeToObjectInternal(
+			item,
+			path,
+			hasLevelBeenApplied,
+			owningPropertyData,
+			asKeyOrValue,
+		)
+	}
+
+	/**
+	 * Gets the property data describing the items of a collection (or the positions of a tuple) declared as the given type, to serialize nested collections according to their type descriptors.
+	 */
+	private getItemPropertyData(
+		ctorOrDescriptor: CtorOrDescriptor | undefined,
+	): JsonProperty {
+		return isTypeDescriptor(ctorOrDescriptor)
+			? ctorOrDescriptor
+			: { type: 'class', options: {}, valueCtorOrThunk: ctorOrDescriptor }
+	}
+
+	/**
+	 * Gets the property data of the member of a union (see {@link jsonUnion}) to serialize the given value as: the first matching type descriptor, or undefined for class instances and primitive values, so that the `#type` property identifying the member is written.
+	 */
+	private getUnionMemberPropertyData(
+		value: any,
+		propData: JsonProperty & { type: 'union' },
+	): JsonProperty | undefined {
+		return propData.memberCtorsOrThunks.find(
+			(member) =>
+				isTypeDescriptor(member) && this.valueMatchesType(value, member),
+		) as JsonTypeDescriptor | undefined
+	}
+
+	private serializeEnumValue(
+		value: any,
+		propData: JsonProperty & { type: 'enum' },
+	): any {
+		if (propData.serializeAs != 'name') return value
+		const member = getEnumMembers(propData.enumObject).find(
+			([, memberValue]) => memberValue === value,
+		)
+		return member ? member[0] : value // unknown values are only rejected if options.validateOnSerialization is set
+	}
+
 	private serializeObject(
 		value: any,
 		path: PropertyKey[],
@@ -291,7 +557,13 @@ export class JsonClassSerializer {
 		asKeyOrValue: KeyOrValue = 'value',
 	): any {
 		const ctor = value.constructor
-		let jsonData = this.getClassDataByCtor(ctor) ?? value[ClassDataSymbol]
+		let jsonData =
+			this.getClassDataByCtor(ctor) ??
+			value[ClassDataSymbol] ??
+			this.findAdapterClassDataByTest(value)
+		if (!jsonData && value instanceof Error) {
+			jsonData = this.getClassDataByCtor(Error) // subclasses of Error that are not registered themselves
+		}
 		if (!jsonData) {
 			const resolvedType =
 				this.options.serializationClassResolver?.(value, this.options) ||
@@ -306,27 +578,64 @@ export class JsonClassSerializer {
 		let obj: any = {}
 		if (jsonData) {
 			if (jsonData.options?.serializer) {
-				value = jsonData.options.serializer(value)
+				value = jsonData.options.serializer(
+					value,
+					this.getClassFunctionOptions(),
+				)
 				obj = this.serializeToObjectInternal(
 					value,
 					path,
 					hasLevelBeenApplied,
 					owningPropertyData,
 				)
+				if (
+					jsonData.adapter &&
+					this.needsTypeProperty(
+						jsonData.adapter.ctor,
+						owningPropertyData?.type == 'any' ? undefined : owningPropertyData, // type of adapter values can't be inferred within AnyType structures
+						asKeyOrValue,
+					)
+				) {
+					obj = {
+						[this.options.serializationPropertyName]: jsonData.name,
+						value: obj,
+					}
+				}
 			} else {
-				const needsTypeProperty =
-					!owningPropertyData ||
-					(asKeyOrValue == 'key' &&
-						propertyHasKeyCtor(owningPropertyData) &&
-						resolveThunk(owningPropertyData.keyCtorOrThunk) !== ctor) ||
-					(asKeyOrValue == 'value' &&
-						propertyHasValueCtor(owningPropertyData) &&
-						resolveThunk(owningPropertyData.valueCtorOrThunk) !== ctor)
-				if (needsTypeProperty)
+				const needsTypeProperty = this.needsTypeProperty(
+					ctor,
+					owningPropertyData,
+					asKeyOrValue,
+				)
+				const discriminator = getDiscriminatorForSubType(ctor)
+				if (discriminator) {
+					obj[discriminator.property] = discriminator.value
+				}
+				const isTypeDeterminedByDiscriminator =
+					discriminator &&
+					owningPropertyData &&
+					propertyHasValueCtor(owningPropertyData) &&
+					asKeyOrValue == 'value' &&
+					resolveThunk(owningPropertyData.valueCtorOrThunk) ===
+						discriminator.baseCtor
+				if (needsTypeProperty && !isTypeDeterminedByDiscriminator)
 					obj[this.options.serializationPropertyName] = jsonData.name
-				for (const [key, propData] of this.getAllProperties(jsonData)) {
-					// TODO: implement type checks for properties
-					let propValue = value[key]
+				if (jsonData.options?.version !== undefined)
+					obj[this.options.versionPropertyName] = jsonData.options.version
+				const hooksEnabled = !this.isComparingDefaultValue
+				if (hooksEnabled) {
+					for (const methodKey of getLifecycleHooks(
+						jsonData,
+						'onSerializing',
+					)) {
+						value[methodKey]()
+					}
+				}
+				for (const [key, propData] of getAllProperties(jsonData)) {
+					let propValue = getPropertyValue(value, key, propData)
+					if (this.options.validateOnSerialization != 'off') {
+						this.validatePropertyValue(propValue, path.concat(key), propData)
+					}
 
 					if (
 						propValue &&
@@ -336,19 +645,41 @@ export class JsonClassSerializer {
 						!propData.options?.deserializer
 					) {
 						// if the property value is an object, but the class is not known, throw an error
-						throw new Error(
+						throw new JsonSerializationError(
 							`Could not find class data for property '${typeof key != 'object' ? String(key) : '[object]'}' while trying to serialize object of type '${jsonData.name}'`,
+							{
+								code: 'UNKNOWN_PROPERTY_CLASS',
+								path: path.concat(key),
+								actualType: describeValueType(propValue),
+							},
 						)
 					}
+					const outerDateFormat = this.propertyDateFormat
+					this.propertyDateFormat = propData.options.dateFormat
+					if (
+						this.options.omitDefaultValues &&
+						propData.options.defaultValue !== undefined &&
+						this.isDefaultValue(propValue, path.concat(key), propData)
+					) {
+						this.propertyDateFormat = outerDateFormat
+						continue
+					}
 					if (propData.options.serializer) {
 						propValue = propData.options.serializer(propValue)
 					}
-					obj[key] = this.serializeToObjectInternal(
-						propValue,
-						path.concat(key),
-						true,
-						propData,
-					)
+					obj[getSerializedPropertyName(key, propData, this.options)] =
+						this.serializeToObjectInternal(
+							propValue,
+							path.concat(key),
+							true,
+							propData,
+						)
+					this.propertyDateFormat = outerDateFormat
+				}
+				if (hooksEnabled) {
+					for (const methodKey of getLifecycleHooks(jsonData, 'onSerialized')) {
+						obj = value[methodKey](obj) ?? obj
+					}
 				}
 			}
 		} else {
@@ -372,18 +703,374 @@ export class JsonClassSerializer {
 		return obj
 	}
 
+	/**
+	 * Returns whether the `#type` property needs to be written for a value of the given class, because the class can't be inferred from the declared type of the owning property.
+	 */
+	private needsTypeProperty(
+		ctor: Ctor,
+		owningPropertyData: JsonProperty | undefined,
+		asKeyOrValue: KeyOrValue,
+	): boolean {
+		return (
+			!owningPropertyData ||
+			(asKeyOrValue == 'key' &&
+				propertyHasKeyCtor(owningPropertyData) &&
+				resolveThunk(owningPropertyData.keyCtorOrThunk) !== ctor) ||
+			(asKeyOrValue == 'value' &&
+				propertyHasValueCtor(owningPropertyData) &&
+				resolveThunk(owningPropertyData.valueCtorOrThunk) !== ctor)
+		)
+	}
+
+	/**
+	 * Finds the type adapter whose {@link JsonTypeAdapter.test | test} function identifies the given value, among the adapters registered for this instance and globally.
+	 */
+	private findAdapterClassDataByTest(value: any): JsonClassData | undefined {
+		for (const classData of this.adapterClassDataByCtor.values()) {
+			if (classData.adapter!.test?.(value)) return classData
+		}
+		return testedAdapterClassData.find((classData) =>
+			classData.adapter!.test!(value),
+		)
+	}
+
+	private isDefaultValue(
+		value: any,
+		path: PropertyKey[],
+		propData: JsonProperty,
+	): boolean {
+		const defaultValue = resolveDefaultValue(propData.options.defaultValue)
+		if (Object.is(value, defaultValue)) return true
+		if (!value || typeof value != 'object') return false
+		// compare serialized forms to support default values such as dates, collections and class instances
+		const encounteredObjectPaths = this.encounteredObjectPathsInSerialization
+		const wasComparingDefaultValue = this.isComparingDefaultValue
+		this.isComparingDefaultValue = true // hooks must only run for output that is actually written
+		const serialize = (value: any) => {
+			// use separate tracking of encountered objects to not interfere with circular reference detection of the actual serialization
+			this.encounteredObjectPathsInSerialization = new WeakMap()
+			return JSON.stringify(
+				this.serializeToObjectInternal(
+					propData.options.serializer
+						? propData.options.serializer(value)
+						: value,
+					path,
+					true,
+					propData,
+				),
+			)
+		}
+		try {
+			return serialize(value) === serialize(defaultValue)
+		} finally {
+			this.encounteredObjectPathsInSerialization = encounteredObjectPaths
+			this.isComparingDefaultValue = wasComparingDefaultValue
+		}
+	}
+
+	private validatePropertyValue(
+		value: any,
+		path: PropertyKey[],
+		propData: JsonProperty,
+	) {
+		if (value == null) return
+		const check = (
+			value: any,
+			path: PropertyKey[],
+			ctorOrThunk: CtorOrDescriptor | undefined,
+		) => {
+			if (isTypeDescriptor(ctorOrThunk)) {
+				this.validatePropertyValue(value, path, ctorOrThunk)
+			} else if (!this.valueMatchesType(value, ctorOrThunk)) {
+				this.reportSerializationTypeMismatch(
+					value,
+					path,
+					resolveThunk(ctorOrThunk as CtorOrThunk).name,
+				)
+			}
+		}
+
+		switch (propData.type) {
+			case 'class':
+				check(value, path, propData.valueCtorOrThunk)
+				break
+			case 'array':
+			case 'set': {
+				const isArray = propData.type == 'array'
+				if (isArray ? !Array.isArray(value) : !(value instanceof Set)) {
+					this.reportSerializationTypeMismatch(
+						value,
+						path,
+						isArray ? 'Array' : 'Set',
+					)
+					return
+				}
+				let idx = 0
+				for (const item of value) {
+					check(item, path.concat(idx++), propData.valueCtorOrThunk)
+				}
+				break
+			}
+			case 'map': {
+				if (!(value instanceof Map)) {
+					this.reportSerializationTypeMismatch(value, path, 'Map')
+					return
+				}
+				let idx = 0
+				for (const [key, item] of value) {
+					check(key, path.concat(idx, 0), propData.keyCtorOrThunk)
+					check(item, path.concat(idx, 1), propData.valueCtorOrThunk)
+					idx++
+				}
+				break
+			}
+			case 'enum':
+				if (!this.isEnumValue(value, propData)) {
+					this.reportSerializationError(
+						this.createUnknownEnumValueError(
+							JsonSerializationError,
+							value,
+							path,
+							propData,
+						),
+					)
+				}
+				break
+			case 'union': {
+				const member = propData.memberCtorsOrThunks.find((member) =>
+					this.valueMatchesType(value, member),
+				)
+				if (!member) {
+					this.reportSerializationTypeMismatch(
+						value,
+						path,
+						this.getPropertyTypeName(propData)!,
+					)
+					return
+				}
+				check(value, path, member)
+				break
+			}
+			case 'tuple': {
+				if (!Array.isArray(value)) {
+					this.reportSerializationTypeMismatch(value, path, 'Tuple')
+					return
+				}
+				value.forEach((item, idx) =>
+					check(item, path.concat(idx), propData.itemCtorsOrThunks[idx]),
+				)
+				break
+			}
+			case 'record': {
+				if (!isPlainObject(value)) {
+					this.reportSerializationTypeMismatch(value, path, 'Record')
+					return
+				}
+				for (const key of Object.keys(value)) {
+					if (!this.isValidRecordKey(key, propData)) {
+						this.reportSerializationError(
+							this.createInvalidRecordKeyError(
+								JsonSerializationError,
+								key,
+								path,
+								propData,
+							),
+						)
+					}
+					check(value[key], path.concat(key), propData.valueCtorOrThunk)
+				}
+				break
+			}
+		}
+	}
+
+	private getPropertyTypeName(propData: JsonProperty): string | undefined {
+		switch (propData.type) {
+			case 'class':
+				return this.getTypeName(propData.valueCtorOrThunk)
+			case 'array':
+				return 'Array'
+			case 'set':
+				return 'Set'
+			case 'map':
+				return 'Map'
+			case 'record':
+				return 'Record'
+			case 'tuple':
+				return 'Tuple'
+			case 'union':
+				return propData.memberCtorsOrThunks
+					.map((member) => this.getTypeName(member) ?? 'any')
+					.join(' | ')
+			case 'enum':
+				return getEnumMembers(propData.enumObject)
+					.map(([name, value]) =>
+						JSON.stringify(propData.serializeAs == 'name' ? name : value),
+					)
+					.join(' | ')
+		}
+	}
+
+	private getTypeName(
+		ctorOrDescriptor: CtorOrDescriptor | undefined,
+	): string | undefined {
+		if (isTypeDescriptor(ctorOrDescriptor)) {
+			return this.getPropertyTypeName(ctorOrDescriptor)
+		}
+		const ctor = ctorOrDescriptor && resolveThunk(ctorOrDescriptor)
+		return ctor && ctor !== AnyType ? ctor.name : undefined
+	}
+
+	private valueMatchesType(
+		value: any,
+		ctorOrThunk: CtorOrDescriptor | undefined,
+	): boolean {
+		if (value == null || !ctorOrThunk) return true
+		if (isTypeDescriptor(ctorOrThunk)) {
+			switch (ctorOrThunk.type) {
+				case 'array':
+				case 'tuple':
+					return Array.isArray(value)
+				case 'set':
+					return value instanceof Set
+				case 'map':
+					return value instanceof Map
+				case 'record':
+					return isPlainObject(value)
+				case 'union':
+					return ctorOrThunk.memberCtorsOrThunks.some((member) =>
+						this.valueMatchesType(value, member),
+					)
+				case 'enum':
+					return this.isEnumValue(value, ctorOrThunk)
+				case 'class':
+					return this.valueMatchesType(value, ctorOrThunk.valueCtorOrThunk)
+				case 'any':
+					return true
+			}
+		}
+		const ctor = resolveThunk(ctorOrThunk)
+		if (ctor === AnyType) return true
+		const primitiveType = primitiveTypeNames.get(ctor)
+		if (primitiveType && typeof value == primitiveType) return true
+		return value instanceof ctor // also allows instances of subclasses
+	}
+
+	private isEnumValue(
+		value: any,
+		propData: JsonProperty & { type: 'enum' },
+	): boolean {
+		return getEnumMembers(propData.enumObject).some(
+			([, memberValue]) => memberValue === value,
+		)
+	}
+
+	private reportSerializationTypeMismatch(
+		value: any,
+		path: PropertyKey[],
+		expectedType: string,
+	) {
+		this.reportSerializationError(
+			new JsonSerializationError(
+				`Expected value of type '${expectedType}', got ${describeValueType(value)}`,
+				{
+					code: 'INVALID_TYPE',
+					path,
+					expectedType,
+					actualType: describeValueType(value),
+				},
+			),
+		)
+	}
+
+	/**
+	 * Throws the given error or logs it as warning, depending on {@link JsonClassSerializerOptions.validateOnSerialization | options.validateOnSerialization}.
+	 */
+	private reportSerializationError(error: JsonSerializationError) {
+		if (this.options.validateOnSerialization == 'throw') throw error
+		console.warn(error.message)
+	}
+
+	private isValidRecordKey(
+		key: string,
+		propData: JsonProperty & { type: 'record' },
+	): boolean {
+		return !propData.options.keyPattern || propData.options.keyPattern.test(key)
+	}
+
+	private createInvalidRecordKeyError<T extends JsonClassSerializerError>(
+		ErrorClass: new (
+			message: string,
+			details: JsonClassSerializerErrorDetails,
+		) => T,
+		key: string,
+		path: PropertyOrMapKey[],
+		propData: JsonProperty & { type: 'record' },
+	): T {
+		return new ErrorClass(
+			`Key '${key}' does not match pattern ${propData.options.keyPattern}`,
+			{ code: 'INVALID_KEY', path: path.concat(key), actualType: 'string' },
+		)
+	}
+
+	private createUnknownEnumValueError<T extends JsonClassSerializerError>(
+		ErrorClass: new (
+			message: string,
+			details: JsonClassSerializerErrorDetails,
+		) => T,
+		value: any,
+		path: PropertyOrMapKey[],
+		propData: JsonProperty & { type: 'enum' },
+	): T {
+		const expectedType = this.getPropertyTypeName(propData)
+		return new ErrorClass(
+			`Unknown enum value ${JSON.stringify(value)} (expected one of ${expectedType})`,
+			{
+				code: 'INVALID_ENUM_VALUE',
+				path,
+				expectedType,
+				actualType: describeValueType(value),
+			},
+		)
+	}
+
+	private serializeRecord(
+		value: any,
+		path: PropertyKey[],
+		hasLevelBeenApplied: boolean,
+		owningPropertyData: JsonProperty & { type: 'record' },
+	): any {
+		const itemPropertyData = this.getItemPropertyData(
+			owningPropertyData.valueCtorOrThunk,
+		)
+		const obj: any = {}
+		for (const key of Object.keys(value)) {
+			obj[key] = this.serializeToObjectInternal(
+				value[key],
+				path.concat(key),
+				hasLevelBeenApplied,
+				itemPropertyData,
+			)
+		}
+		return obj
+	}
+
 	private serializeSet(
 		value: Set<any>,
 		path: PropertyKey[],
 		hasLevelBeenApplied: boolean,
 		owningPropertyData: JsonProperty | undefined,
 	): any {
+		const itemPropertyData =
+			owningPropertyData?.type == 'set'
+				? this.getItemPropertyData(owningPropertyData.valueCtorOrThunk)
+				: owningPropertyData
 		return Array.from(value).map((item, idx) =>
-			this.serializeToObjectInternal(
+			this.serializeItem(
 				item,
 				path.concat(idx),
 				hasLevelBeenApplied,
-				owningPropertyData,
+				itemPropertyData,
 			),
 		)
 	}
@@ -394,56 +1081,309 @@ export class JsonClassSerializer {
 		hasLevelBeenApplied: boolean,
 		owningPropertyData: JsonProperty | undefined,
 	): any {
-		const entries: EntryOrKeyValue[] = Array.from(value.entries()).map(
-			([key, value], idx) => {
-				const serializedKey = this.serializeToObjectInternal(
+		const isMapProperty = owningPropertyData?.type == 'map'
+		const keyPropertyData = isMapProperty
+			? this.getItemPropertyData(owningPropertyData.keyCtorOrThunk)
+			: owningPropertyData
+		const valuePropertyData = isMapProperty
+			? this.getItemPropertyData(owningPropertyData.valueCtorOrThunk)
+			: owningPropertyData
+		const entries: [any, any][] = Array.from(value.entries()).map(
+			([key, value], idx) => [
+				this.serializeItem(
 					key,
 					path.concat(idx, 0),
 					hasLevelBeenApplied,
-					owningPropertyData,
-					'key',
-				)
-				const serializedValue = this.serializeToObjectInternal(
+					keyPropertyData,
+					isMapProperty ? 'value' : 'key', // the key type is described as value of keyPropertyData
+				),
+				this.serializeItem(
 					value,
 					path.concat(idx, 1),
 					hasLevelBeenApplied,
-					owningPropertyData,
+					valuePropertyData,
+				),
+			],
+		)
+
+		let strategy =
+			owningPropertyData?.options.mapSerializationStrategy ??
+			this.options.mapSerializationStrategy
+		if (strategy == 'object') {
+			const invalidKeyIdx = this.findKeyInvalidForObject(entries)
+			if (invalidKeyIdx == -1) return Object.fromEntries(entries)
+			if (this.options.mapSerializationFallbackStrategy == 'fail') {
+				const key = entries[invalidKeyIdx][0]
+				throw new JsonSerializationError(
+					`Map key ${typeof key == 'string' || typeof key == 'number' ? `${JSON.stringify(key)} is not unique` : `of type '${describeValueType(key)}' is not a string or number`} and cannot be used as key of a JSON object (map serialization strategy 'object')`,
+					{
+						code: 'INVALID_KEY',
+						path: path.concat(invalidKeyIdx, 0),
+						actualType: describeValueType(key),
+					},
+				)
+			}
+			strategy = this.options.mapSerializationFallbackStrategy
+		}
+		switch (strategy) {
+			case 'arrayOfEntries':
+				return entries
+			case 'arrayOfKeyValueObjects':
+				return entries.map(([key, value]): EntryOrKeyValue => ({ key, value }))
+			default:
+				throw new JsonSerializationError(
+					`Unknown map serialization strategy: ${strategy}`,
+					{ code: 'INVALID_OPTION', path },
 				)
+		}
+	}
 
-				switch (this.options.mapSerializationStrategy) {
-					case 'arrayOfEntries':
-						return [serializedKey, serializedValue] as [any, any]
-					case 'arrayOfKeyValueObjects':
-						return { key: serializedKey, value: serializedValue }
-					default:
-						throw new Error(
-							`Unknown map serialization strategy: ${this.options.mapSerializationStrategy}`,
-						)
-				}
-			},
-		)
-		return entries
+	/**
+	 * Finds the first serialized map key that cannot be used as key of a JSON object: keys must be strings or finite numbers and unique when converted to strings.
+	 * @returns The index of the entry, or -1 if all keys are valid.
+	 */
+	private findKeyInvalidForObject(entries: [any, any][]): number {
+		const keys = new Set<string>()
+		return entries.findIndex(([key]) => {
+			if (
+				typeof key != 'string' &&
+				!(typeof key == 'number' && Number.isFinite(key))
+			) {
+				return true
+			}
+			const keyStr = String(key)
+			if (keys.has(keyStr)) return true
+			keys.add(keyStr)
+			return false
+		})
 	}
 
 	// private deserialization code
 
-	private deserializeFromObjectInternal(
-		value: any,
-		path: PropertyOrMapKey[],
-		valueClassData: JsonClassData | undefined,
-		failIfClassNotFound: boolean,
+	private deserializeRoot(
+		value: unknown,
+		ctorOrType: Ctor | JsonTypeDescriptor | undefined,
 	): any {
-		if (this.options.circularDependencyReferencePropertyName) {
-			if (value?.[this.options.circularDependencyReferencePropertyName]) {
-				this.encounteredReferencePathsInDeserialization.push(path)
-				return value // will be replaced later when deserialization is almost done
-			} else if (this.encounteredInputObjectPathsInDeserialization.has(value)) {
-				this.encounteredReferencePathsInDeserialization.push(path)
-				const valueEncounteredAtPath =
-					this.encounteredInputObjectPathsInDeserialization.get(value)
-				return {
-					[this.options.circularDependencyReferencePropertyName]:
-						valueEncounteredAtPath,
+		this.encounteredReferencePathsInDeserialization = []
+		this.encounteredRootPathsInDeserialization = []
+		this.encounteredLevelPathsInDeserialization = []
+		this.encounteredInputObjectPathsInDeserialization = new Map()
+		this.collectedDeserializationErrors = []
+		this.deserializedInstancesWithHooks = []
+		this.propertyDateFormat = undefined
+		this.checkDeserializationLimits(value)
+		const result = isTypeDescriptor(ctorOrType)
+			? this.deserializeDescribedValue(value, [], ctorOrType)
+			: this.deserializeFromObjectInternal(
+					value,
+					[],
+					this.getClassDataByCtor(ctorOrType),
+					this.options.failIfRootClassNotFound,
+				)
+		if (this.collectedDeserializationErrors.length) {
+			const errors = this.collectedDeserializationErrors
+			this.collectedDeserializationErrors = []
+			throw new JsonClassSerializerAggregateError(errors)
+		}
+		this.replaceCircularReferences(result)
+		const instancesWithHooks = this.deserializedInstancesWithHooks
+		this.deserializedInstancesWithHooks = [] // hooks may use this instance again
+		for (const [instance, classData] of instancesWithHooks) {
+			for (const methodKey of getLifecycleHooks(classData, 'onDeserialized')) {
+				instance[methodKey]()
+			}
+		}
+		return result
+	}
+
+	/**
+	 * Checks the input against {@link JsonClassSerializerOptions.deserializationLimits | options.deserializationLimits} before deserializing it, so that oversized input is rejected before any work is done (`maxJsonLength` is checked before parsing instead). The input is traversed iteratively to not overflow the call stack on deeply nested input.
+	 * @throws JsonDeserializationError with code `'LIMIT_EXCEEDED'` for the first violation found.
+	 */
+	private checkDeserializationLimits(root: unknown) {
+		const { maxDepth, maxArrayLength, maxStringLength, maxNodes } =
+			this.options.deserializationLimits
+		if (
+			maxDepth === undefined &&
+			maxArrayLength === undefined &&
+			maxStringLength === undefined &&
+			maxNodes === undefined
+		) {
+			return
+		}
+		type Node = {
+			value: unknown
+			depth: number
+			parent?: Node
+			key?: PropertyKey
+		}
+		const fail = (node: Node, message: string): never => {
+			const path: PropertyKey[] = []
+			for (let current = node; current.parent; current = current.parent) {
+				path.unshift(current.key!)
+			}
+			throw new JsonDeserializationError(message, {
+				code: 'LIMIT_EXCEEDED',
+				path,
+				actualType: describeValueType(node.value),
+			})
+		}
+		const visited = new Set<object>() // objects may be shared or circular if deserializing from an object
+		const stack: Node[] = [{ value: root, depth: 0 }]
+		let nodeCount = 0
+		while (stack.length) {
+			const node = stack.pop()!
+			const { value } = node
+			if (maxNodes !== undefined && ++nodeCount > maxNodes) {
+				fail(node, `Input exceeds the maximum number of ${maxNodes} values`)
+			}
+			if (typeof value == 'string') {
+				if (maxStringLength !== undefined && value.length > maxStringLength) {
+					fail(node, `String exceeds the maximum length of ${maxStringLength}`)
+				}
+				continue
+			}
+			if (!value || typeof value != 'object' || visited.has(value)) continue
+			visited.add(value)
+			const depth = node.depth + 1
+			if (maxDepth !== undefined && depth > maxDepth) {
+				fail(node, `Input exceeds the maximum depth of ${maxDepth}`)
+			}
+			if (Array.isArray(value)) {
+				if (maxArrayLength !== undefined && value.length > maxArrayLength) {
+					fail(node, `Array exceeds the maximum length of ${maxArrayLength}`)
+				}
+				for (let idx = value.length - 1; idx >= 0; idx--) {
+					stack.push({ value: value[idx], depth, parent: node, key: idx })
+				}
+			} else if (isPlainObject(value)) {
+				for (const key of Object.keys(value).reverse()) {
+					const child = { value: value[key], depth, parent: node, key }
+					if (maxStringLength !== undefined && key.length > maxStringLength) {
+						fail(
+							child,
+							`Object key exceeds the maximum length of ${maxStringLength}`,
+						)
+					}
+					stack.push(child)
+				}
+			}
+		}
+	}
+
+	/**
+	 * Calls a function with the options of this instance temporarily overridden by the options passed to a single call. The options of the instance are restored afterwards, even if the function throws, so calls with different options don't affect each other. `deserializationLimits` are merged limit by limit, so a call overriding one limit keeps the other limits of the instance.
+	 */
+	private withCallOptions<R>(
+		callOptions: Partial<JsonClassSerializerOptions> | undefined,
+		fn: () => R,
+	): R {
+		if (!callOptions) return fn()
+		const instanceOptions = this.options
+		this.options = {
+			...instanceOptions,
+			...callOptions,
+			deserializationLimits: {
+				...instanceOptions.deserializationLimits,
+				...callOptions.deserializationLimits,
+			},
+		}
+		try {
+			return fn()
+		} finally {
+			this.options = instanceOptions
+		}
+	}
+
+	private deserializeFromObjectInternal(
+		value: any,
+		path: PropertyOrMapKey[],
+		valueClassData: JsonClassData | undefined,
+		failIfClassNotFound: boolean,
+	): any {
+		if (!this.options.collectAllErrors) {
+			return this.deserializeValue(
+				value,
+				path,
+				valueClassData,
+				failIfClassNotFound,
+			)
+		}
+		try {
+			return this.deserializeValue(
+				value,
+				path,
+				valueClassData,
+				failIfClassNotFound,
+			)
+		} catch (error) {
+			if (
+				!(error instanceof JsonClassSerializerError) ||
+				error instanceof JsonClassSerializerAggregateError ||
+				error.code == 'LIMIT_EXCEEDED' // fail fast on oversized input
+			) {
+				throw error
+			}
+			this.reportDeserializationError(error)
+			return undefined
+		}
+	}
+
+	/**
+	 * Throws the given error, or remembers it if {@link JsonClassSerializerOptions.collectAllErrors | options.collectAllErrors} is set. Collected errors are thrown together at the end of deserialization.
+	 */
+	private reportDeserializationError(error: JsonClassSerializerError) {
+		if (!this.options.collectAllErrors) throw error
+		this.collectedDeserializationErrors.push(error)
+	}
+
+	/**
+	 * Checks whether a key of a plain object or record found in the input may be copied to the deserialized object, i.e. is not a {@link isForbiddenKey | forbidden key}. Forbidden keys are reported with code `'FORBIDDEN_KEY'` if {@link JsonClassSerializerOptions.failIfForbiddenKeysFound | options.failIfForbiddenKeysFound} is set.
+	 */
+	private isCopyableKey(key: string, path: PropertyOrMapKey[]): boolean {
+		if (!isForbiddenKey(key)) return true
+		if (this.options.failIfForbiddenKeysFound) {
+			this.reportDeserializationError(
+				new JsonDeserializationError(`Forbidden key '${key}' found`, {
+					code: 'FORBIDDEN_KEY',
+					path: path.concat(key),
+				}),
+			)
+		}
+		return false
+	}
+
+	private deserializeValue(
+		value: any,
+		path: PropertyOrMapKey[],
+		valueClassData: JsonClassData | undefined,
+		failIfClassNotFound: boolean,
+	): any {
+		if (this.isUndefinedMarker(value)) return undefined
+		const adapterClassData = this.getWrappingAdapterClassData(value)
+		if (
+			adapterClassData &&
+			(!valueClassData?.options?.deserializer ||
+				valueClassData === adapterClassData)
+		) {
+			// value of a type adapter wrapped because its type could not be inferred from the declared type
+			if (!this.isResolvedTypeAllowed(adapterClassData, valueClassData, path)) {
+				return undefined
+			}
+			valueClassData = adapterClassData
+			value = value.value
+		}
+		if (this.options.circularDependencyReferencePropertyName) {
+			if (value?.[this.options.circularDependencyReferencePropertyName]) {
+				this.encounteredReferencePathsInDeserialization.push(path)
+				return value // will be replaced later when deserialization is almost done
+			} else if (this.encounteredInputObjectPathsInDeserialization.has(value)) {
+				this.encounteredReferencePathsInDeserialization.push(path)
+				const valueEncounteredAtPath =
+					this.encounteredInputObjectPathsInDeserialization.get(value)
+				return {
+					[this.options.circularDependencyReferencePropertyName]:
+						valueEncounteredAtPath,
 				} // will be replaced later when deserialization is almost done
 			}
 		}
@@ -459,10 +1399,39 @@ export class JsonClassSerializer {
 			this.encounteredLevelPathsInDeserialization.push(path)
 		}
 
+		if (
+			this.options.validateOnDeserialization &&
+			valueClassData &&
+			value != null &&
+			!this.validateValue(value, path, valueClassData)
+		) {
+			return undefined
+		}
+		if (value == null) return value // e.g. null items of collections; deserializers only handle actual values
 		if (valueClassData?.options?.deserializer) {
-			value = valueClassData.options.deserializer(value)
+			try {
+				value = valueClassData.options.deserializer(
+					value,
+					this.getClassFunctionOptions(),
+				)
+			} catch (error) {
+				if (error instanceof JsonClassSerializerError) throw error
+				const expectedType = valueClassData.name ?? valueClassData.ctor?.name
+				this.reportDeserializationError(
+					new JsonDeserializationError(
+						`Could not deserialize value of type '${expectedType}' from ${describeValueType(value)}`,
+						{
+							code: 'INVALID_TYPE',
+							path,
+							expectedType,
+							actualType: describeValueType(value),
+						},
+						{ cause: error },
+					),
+				)
+				return undefined
+			}
 		}
-		if (value == null) return value
 
 		const type = typeof value
 		if (typeof value === 'object') {
@@ -494,6 +1463,98 @@ export class JsonClassSerializer {
 		return newValue
 	}
 
+	private validateValue(
+		value: any,
+		path: PropertyOrMapKey[],
+		valueClassData: JsonClassData,
+	): boolean {
+		if (Array.isArray(value) && !path.length) return true // root array of class instances; items are validated individually
+
+		const validator = valueClassData.options?.validator
+		let isValid: boolean
+		if (validator) {
+			isValid = validator(value, this.getClassFunctionOptions())
+		} else if (valueClassData.options?.deserializer) {
+			isValid = true // custom deserializer may accept any kind of value
+		} else {
+			isValid = typeof value == 'object' && !Array.isArray(value)
+		}
+		if (!isValid) {
+			const expectedType = valueClassData.name ?? valueClassData.ctor?.name
+			this.reportDeserializationError(
+				new JsonDeserializationError(
+					`Expected value of type '${expectedType}', got ${describeValueType(value)}`,
+					{
+						code: 'INVALID_TYPE',
+						path,
+						expectedType,
+						actualType: describeValueType(value),
+					},
+				),
+			)
+		}
+		return isValid
+	}
+
+	private validatePropertyShape(
+		value: any,
+		path: PropertyOrMapKey[],
+		propData: JsonProperty,
+	): boolean {
+		if (this.hasValidShape(value, propData)) return true
+		const expectedType = this.getPropertyTypeName(propData)
+		const serializedForm =
+			propData.type == 'record'
+				? 'object'
+				: propData.type == 'map'
+					? 'array of entries or object'
+					: propData.type == 'tuple'
+						? `array of length ${propData.itemCtorsOrThunks.length}`
+						: 'array'
+		const actualType = describeValueType(value)
+		this.reportDeserializationError(
+			new JsonDeserializationError(
+				`Expected ${expectedType} (serialized as ${serializedForm}), got ${propData.type == 'tuple' && Array.isArray(value) ? `array of length ${value.length}` : actualType}`,
+				{ code: 'INVALID_TYPE', path, expectedType, actualType },
+			),
+		)
+		return false
+	}
+
+	/**
+	 * Checks whether a serialized value has the shape of the declared collection type (e.g. an array of entries for a map). Values of other types are checked when they are deserialized.
+	 */
+	private hasValidShape(value: any, propData: JsonProperty): boolean {
+		switch (propData.type) {
+			case 'array':
+			case 'set':
+				return Array.isArray(value)
+			case 'map':
+				return (
+					isPlainObject(value) ||
+					(Array.isArray(value) &&
+						value.every(
+							(entry: any) =>
+								(Array.isArray(entry) && entry.length == 2) ||
+								(entry &&
+									typeof entry == 'object' &&
+									!Array.isArray(entry) &&
+									'key' in entry &&
+									'value' in entry),
+						))
+				)
+			case 'record':
+				return isPlainObject(value)
+			case 'tuple':
+				return (
+					Array.isArray(value) &&
+					value.length == propData.itemCtorsOrThunks.length
+				)
+			default:
+				return true
+		}
+	}
+
 	private getClassDataByName(name: string): JsonClassData | undefined {
 		if (!name) return undefined // can happen for anonymous classes not registered with @jsonClass
 
@@ -505,9 +1566,7 @@ export class JsonClassSerializer {
 			const classData = this.getClassDataByCtor(ctor)
 			if (classData) return classData
 		}
-		if (this.options.useGlobalClassRegistry) {
-			return classDataByName.get(name)
-		}
+		return getClassRegistry(this.options)?.get(name)
 	}
 
 	private getClassDataByCtor(
@@ -515,7 +1574,8 @@ export class JsonClassSerializer {
 	): JsonClassData | undefined {
 		if (!ctorOrThunk) return undefined
 		const ctor = resolveThunk(ctorOrThunk)
-		const classData = classDataByCtor.get(ctor)
+		const classData =
+			this.adapterClassDataByCtor.get(ctor) ?? getClassData(ctor)
 		if (classData && !classData.ctor && !classData.options?.deserializer) {
 			// could be the case for additional classes known to JsonClassSerializer instance, but not globally registered using @jsonClass
 			// don't set ctor if deserializer is set, otherwise it would interfere with deserialization of primitive types
@@ -524,32 +1584,164 @@ export class JsonClassSerializer {
 		return classData
 	}
 
-	private getAllProperties(
-		jsonData: JsonClassData | undefined,
-	): Map<PropertyKey, JsonProperty> {
-		const properties = new Map<PropertyKey, JsonProperty>()
+	/**
+	 * Gets the name under which a property is found in the input to be deserialized: the serialized name or the first of its {@link JsonPropertyOptions.aliases | aliases} present in the input.
+	 */
+	private getInputPropertyName(
+		value: any,
+		key: PropertyKey,
+		propData: JsonProperty,
+	): PropertyKey {
+		const serializedName = getSerializedPropertyName(
+			key,
+			propData,
+			this.options,
+		)
+		if (serializedName in value || !propData.options.aliases) {
+			return serializedName
+		}
+		return (
+			propData.options.aliases.find((alias) => alias in value) ?? serializedName
+		)
+	}
 
-		function addPropertiesForClass(
-			jsonData: JsonClassData | undefined,
-			ctor: Ctor | undefined,
+	/**
+	 * Upgrades a serialized object from the version found in {@link JsonClassSerializerOptions.versionPropertyName | options.versionPropertyName} (default: 1) to the current {@link JsonClassOptions.version | version} of the class by applying its {@link JsonClassOptions.migrations | migrations} one after the other.
+	 * @returns The migrated object, or undefined if migration failed and the error was collected.
+	 */
+	private migrateToCurrentVersion(
+		value: any,
+		path: PropertyOrMapKey[],
+		valueClassData: JsonClassData,
+	): any {
+		const { version: currentVersion, migrations = {} } = valueClassData.options!
+		let version = value[this.options.versionPropertyName] ?? 1
+		if (
+			!Number.isInteger(version) ||
+			version < 1 ||
+			version > currentVersion!
 		) {
-			const superClass = ctor ? Object.getPrototypeOf(ctor) : undefined
-			if (superClass) {
-				// first process super classes to ensure correct order or properties. Also dive down prototype chain if no jsonData is available as there could be intermediate classes without any annotated properties
-				const superClassJsonData = superClass
-					? classDataByCtor.get(superClass)
-					: undefined
-				addPropertiesForClass(superClassJsonData, superClass)
-			}
-			for (const property of jsonData?.properties?.entries() ?? []) {
-				if (!properties.has(property[0])) {
-					properties.set(property[0], property[1])
-				}
+			this.reportDeserializationError(
+				new JsonDeserializationError(
+					`Unsupported version ${JSON.stringify(version)} of class '${valueClassData.name}' (current version: ${currentVersion})`,
+					{
+						code: 'UNSUPPORTED_VERSION',
+						path: path.concat(this.options.versionPropertyName),
+						expectedType: valueClassData.name,
+						actualType: describeValueType(version),
+					},
+				),
+			)
+			return undefined
+		}
+		while (version < currentVersion!) {
+			const migration = migrations[version]
+			if (!migration) {
+				this.reportDeserializationError(
+					new JsonDeserializationError(
+						`Missing migration of class '${valueClassData.name}' from version ${version} to ${version + 1}`,
+						{
+							code: 'MISSING_MIGRATION',
+							path,
+							expectedType: valueClassData.name,
+						},
+					),
+				)
+				return undefined
 			}
+			value = migration({ ...value })
+			version++
 		}
-		addPropertiesForClass(jsonData, jsonData?.ctor)
+		return value
+	}
 
-		return properties
+	/**
+	 * Checks whether a class resolved from the input (by the `#type` property, a discriminator property or the name of a type adapter) may be instantiated: it must be allowed by {@link JsonClassSerializerOptions.allowedTypes | options.allowedTypes} and {@link JsonClassSerializerOptions.deniedTypes | options.deniedTypes}, and be the declared class or one of its subclasses. Violations are reported with code `'TYPE_NOT_ALLOWED'`.
+	 */
+	private isResolvedTypeAllowed(
+		resolvedClassData: JsonClassData,
+		declaredClassData: JsonClassData | undefined,
+		path: PropertyOrMapKey[],
+	): boolean {
+		const ctor = resolvedClassData.adapter?.ctor ?? resolvedClassData.ctor
+		if (!ctor) return true
+		const declaredCtor =
+			declaredClassData?.adapter?.ctor ?? declaredClassData?.ctor
+		const { allowedTypes, deniedTypes } = this.options
+		const typeName = resolvedClassData.name ?? ctor.name
+		const declaredTypeName = declaredClassData?.name ?? declaredCtor?.name
+		let reason: string | undefined
+		if (allowedTypes && !allowedTypes.includes(ctor)) {
+			reason = 'is not an allowed type'
+		} else if (
+			deniedTypes?.some(
+				(deniedCtor) =>
+					ctor === deniedCtor || ctor.prototype instanceof deniedCtor,
+			)
+		) {
+			reason = 'is a denied type'
+		} else if (
+			declaredCtor &&
+			ctor !== declaredCtor &&
+			!(ctor.prototype instanceof declaredCtor)
+		) {
+			reason = `is not a subclass of the declared type '${declaredTypeName}'`
+		}
+		if (!reason) return true
+		this.reportDeserializationError(
+			new JsonDeserializationError(`Type '${typeName}' ${reason}`, {
+				code: 'TYPE_NOT_ALLOWED',
+				path,
+				expectedType: declaredTypeName,
+				actualType: typeName,
+			}),
+		)
+		return false
+	}
+
+	/**
+	 * Resolves the subclass to deserialize into using the {@link JsonClassOptions.discriminator | discriminator} of the given class (and of the resolved subclasses, if they declare a discriminator themselves).
+	 * @returns The class data of the subclass, or undefined if the class has no discriminator or the discriminator property is missing.
+	 */
+	private resolveDiscriminatedSubType(
+		value: any,
+		path: PropertyOrMapKey[],
+		valueClassData: JsonClassData | undefined,
+	): JsonClassData | undefined {
+		let resolvedClassData: JsonClassData | undefined
+		let discriminator = valueClassData?.options?.discriminator
+		while (
+			discriminator &&
+			value &&
+			typeof value == 'object' &&
+			value[discriminator.property] != null
+		) {
+			const discriminatorValue = String(value[discriminator.property])
+			const subTypes = resolveThunk(discriminator.subTypes)
+			const subClassData = Object.hasOwn(subTypes, discriminatorValue)
+				? this.getClassDataByCtor(subTypes[discriminatorValue])
+				: undefined
+			if (!subClassData) {
+				if (!this.options.failIfTypeResolutionFails) break
+				throw new JsonDeserializationError(
+					`Unknown value '${discriminatorValue}' of discriminator property '${discriminator.property}' (expected one of ${Object.keys(
+						subTypes,
+					)
+						.map((key) => `'${key}'`)
+						.join(', ')})`,
+					{
+						code: 'TYPE_RESOLUTION_FAILED',
+						path: path.concat(discriminator.property),
+						expectedType: resolvedClassData?.name ?? valueClassData?.name,
+						actualType: describeValueType(value[discriminator.property]),
+					},
+				)
+			}
+			if (subClassData === resolvedClassData) break
+			resolvedClassData = subClassData
+			discriminator = subClassData.options?.discriminator
+		}
+		return resolvedClassData
 	}
 
 	private deserializeObject(
@@ -558,9 +1750,17 @@ export class JsonClassSerializer {
 		valueClassData: JsonClassData | undefined,
 		failIfClassNotFound: boolean,
 	): any {
+		const discriminatedClassData = this.resolveDiscriminatedSubType(
+			value,
+			path,
+			valueClassData,
+		)
 		const needToDetermineClassData =
 			!valueClassData || (value && typeof value == 'object')
-		if (needToDetermineClassData) {
+		const declaredClassData = valueClassData
+		if (discriminatedClassData) {
+			valueClassData = discriminatedClassData
+		} else if (needToDetermineClassData) {
 			const resolvedType = this.options.deserializationClassResolver?.(
 				value,
 				this.options,
@@ -575,11 +1775,26 @@ export class JsonClassSerializer {
 				!valueClassData &&
 				this.options.failIfTypeResolutionFails
 			) {
-				throw new Error(
-					`Could not resolve class data while trying to deserialize object of type '${resolvedType}': ${JSON.stringify(value)}`,
+				const typeName =
+					typeof resolvedType == 'string' ? resolvedType : resolvedType.name
+				throw new JsonDeserializationError(
+					`Could not resolve class data while trying to deserialize object of type '${typeName}'`,
+					{
+						code: 'TYPE_RESOLUTION_FAILED',
+						path,
+						expectedType: typeName,
+						actualType: describeValueType(value),
+					},
 				)
 			}
 		}
+		if (
+			valueClassData &&
+			valueClassData !== declaredClassData &&
+			!this.isResolvedTypeAllowed(valueClassData, declaredClassData, path)
+		) {
+			return undefined
+		}
 
 		if (valueClassData) {
 			let obj: any
@@ -587,7 +1802,16 @@ export class JsonClassSerializer {
 				// already a class instance that doesn't need further construction; nothing left to do
 				obj = value
 			} else {
-				if (valueClassData.ctor) {
+				if (valueClassData.options?.version !== undefined) {
+					value = this.migrateToCurrentVersion(value, path, valueClassData)
+					if (value === undefined) return undefined // migration failed and error was collected
+				}
+				const hasCreator =
+					valueClassData.creator ||
+					valueClassData.options?.constructorParameters
+				if (valueClassData.ctor && hasCreator) {
+					obj = {} // collects the property values to pass to the creator
+				} else if (valueClassData.ctor) {
 					try {
 						obj = new valueClassData.ctor()
 					} catch {
@@ -597,9 +1821,60 @@ export class JsonClassSerializer {
 					obj = value
 				}
 				if (obj && typeof obj == 'object') {
-					for (const [key, propData] of this.getAllProperties(valueClassData)) {
-						if (!(key in value)) continue
-						let propValue = value[key]
+					const assignPropertyValue = (
+						key: PropertyKey,
+						propData: JsonProperty,
+						value: any,
+					) => {
+						if (valueClassData!.ctor && hasCreator) {
+							obj[key] = value // collect property values by key to pass them to the creator
+						} else {
+							setPropertyValue(obj, key, value, propData)
+						}
+					}
+					for (const [key, propData] of getAllProperties(valueClassData)) {
+						const inputKey = this.getInputPropertyName(value, key, propData)
+						if (value[inputKey] === undefined) {
+							const { required, defaultValue } = propData.options
+							if (required) {
+								this.reportDeserializationError(
+									new JsonDeserializationError(
+										`Missing required property '${String(key)}'`,
+										{
+											code: 'MISSING_PROPERTY',
+											path: path.concat(key),
+											expectedType: this.getPropertyTypeName(propData),
+											actualType: 'undefined',
+										},
+									),
+								)
+								continue
+							}
+							if (defaultValue !== undefined) {
+								assignPropertyValue(
+									key,
+									propData,
+									resolveDefaultValue(defaultValue),
+								)
+								continue
+							}
+							if (!(inputKey in value)) continue
+						}
+						let propValue = value[inputKey]
+						if (propValue === null && propData.options.nullable === false) {
+							this.reportDeserializationError(
+								new JsonDeserializationError(
+									`Property '${String(key)}' must not be null`,
+									{
+										code: 'NULL_NOT_ALLOWED',
+										path: path.concat(key),
+										expectedType: this.getPropertyTypeName(propData),
+										actualType: 'null',
+									},
+								),
+							)
+							continue
+						}
 						if (propData.options?.deserializer) {
 							propValue = propData.options.deserializer(propValue)
 						}
@@ -614,76 +1889,56 @@ export class JsonClassSerializer {
 								path.concat(key),
 							)
 						} else if (newValue != null) {
-							switch (propData.type) {
-								case 'class': {
-									const valueClassData = this.getClassDataByCtor(
-										propData.valueCtorOrThunk,
-									)
-									newValue = this.deserializeFromObjectInternal(
-										propValue,
-										path.concat(key),
-										valueClassData,
-										false,
-									)
-									break
-								}
-								case 'array': {
-									const valueClassData = this.getClassDataByCtor(
-										propData.valueCtorOrThunk,
-									)
-									newValue = this.deserializeArray(
-										propValue,
-										path.concat(key),
-										valueClassData,
-										false,
-									)
-									break
-								}
-								case 'set': {
-									const valueClassData = this.getClassDataByCtor(
-										propData.valueCtorOrThunk,
-									)
-									newValue = this.deserializeSet(
-										propValue,
-										path.concat(key),
-										valueClassData,
-									)
-									break
-								}
-								case 'map': {
-									const keyClassData = this.getClassDataByCtor(
-										propData.keyCtorOrThunk,
-									)
-									const valueClassData = this.getClassDataByCtor(
-										propData.valueCtorOrThunk,
-									)
-									newValue = this.deserializeMap(
-										propValue,
-										path.concat(key),
-										keyClassData,
-										valueClassData,
-									)
-									break
-								}
-								case 'any': {
-									newValue = propValue
-									break
-								}
+							if (
+								this.options.validateOnDeserialization &&
+								!this.validatePropertyShape(
+									propValue,
+									path.concat(key),
+									propData,
+								)
+							) {
+								continue
 							}
+							const outerDateFormat = this.propertyDateFormat
+							this.propertyDateFormat = propData.options.dateFormat
+							newValue = this.deserializePropertyValue(
+								propValue,
+								path.concat(key),
+								propData,
+							)
+							this.propertyDateFormat = outerDateFormat
 						}
-						Reflect.set(obj, key, newValue)
+						assignPropertyValue(key, propData, newValue)
+					}
+					if (valueClassData.ctor && hasCreator) {
+						obj = this.createInstance(obj, path, valueClassData)
+						if (obj === undefined) return undefined // creator failed and error was collected
+					}
+					if (
+						valueClassData.ctor &&
+						getLifecycleHooks(valueClassData, 'onDeserialized').length
+					) {
+						this.deserializedInstancesWithHooks.push([obj, valueClassData])
 					}
 				}
 			}
 			return obj
 		} else {
 			if (failIfClassNotFound || this.options.failIfPlainObjectsFound) {
-				throw new Error(
-					`Could not find class data while trying to deserialize: ${JSON.stringify(value)}`,
+				throw new JsonDeserializationError(
+					`Could not find class data while trying to deserialize ${describeValueType(value)}`,
+					{
+						code: failIfClassNotFound
+							? 'CLASS_NOT_FOUND'
+							: 'PLAIN_OBJECT_FOUND',
+						path,
+						actualType: describeValueType(value),
+					},
 				)
 			}
 			const obj: any = {}
 			for (const key in value) {
+				if (!this.isCopyableKey(key, path)) continue
 				obj[key] = this.deserializeFromObjectInternal(
 					value[key],
 					path.concat(key),
@@ -695,17 +1950,410 @@ export class JsonClassSerializer {
 		}
 	}
 
+	/**
+	 * Creates an instance using the {@link jsonCreator} method or the {@link JsonClassOptions.constructorParameters | constructorParameters} of the class. Property values not passed to the creator are assigned to the created instance afterwards.
+	 * @param propertyValues The deserialized property values by property key.
+	 * @returns The created instance, or undefined if the creator failed and the error was collected.
+	 */
+	private createInstance(
+		propertyValues: Record<PropertyKey, any>,
+		path: PropertyOrMapKey[],
+		valueClassData: JsonClassData,
+	): any {
+		const ctor = valueClassData.ctor
+		const creator = valueClassData.creator
+		const parameters =
+			creator?.parameters ?? valueClassData.options?.constructorParameters!
+		let obj: any
+		try {
+			if (creator && !creator.parameters) {
+				obj = ctor[creator.methodKey](propertyValues)
+			} else {
+				const args = parameters.map((key) => propertyValues[key])
+				obj = creator ? ctor[creator.methodKey](...args) : new ctor(...args)
+			}
+		} catch (error) {
+			if (error instanceof JsonClassSerializerError) throw error
+			this.reportDeserializationError(
+				new JsonDeserializationError(
+					`Could not create instance of class '${valueClassData.name ?? ctor.name}': ${error instanceof Error ? error.message : String(error)}`,
+					{
+						code: 'INSTANTIATION_FAILED',
+						path,
+						expectedType: valueClassData.name ?? ctor.name,
+					},
+					{ cause: error },
+				),
+			)
+			return undefined
+		}
+		if (parameters) {
+			const properties = getAllProperties(valueClassData)
+			for (const key of Reflect.ownKeys(propertyValues)) {
+				if (!parameters.includes(key)) {
+					setPropertyValue(obj, key, propertyValues[key], properties.get(key))
+				}
+			}
+		}
+		return obj
+	}
+
+	/**
+	 * Deserializes a non-null property value (or a value described by a {@link JsonTypeDescriptor}) according to the declared type.
+	 */
+	private deserializePropertyValue(
+		value: any,
+		path: PropertyOrMapKey[],
+		propData: JsonProperty,
+	): any {
+		switch (propData.type) {
+			case 'class':
+				return this.deserializeFromObjectInternal(
+					value,
+					path,
+					this.getClassDataByCtor(propData.valueCtorOrThunk),
+					false,
+				)
+			case 'array':
+				return this.deserializeArray(
+					value,
+					path,
+					this.resolveItemType(propData.valueCtorOrThunk),
+					false,
+				)
+			case 'set':
+				return this.deserializeSet(
+					value,
+					path,
+					this.resolveItemType(propData.valueCtorOrThunk),
+				)
+			case 'map':
+				return this.deserializeMap(
+					value,
+					path,
+					this.resolveItemType(propData.keyCtorOrThunk),
+					this.resolveItemType(propData.valueCtorOrThunk),
+				)
+			case 'record':
+				return this.deserializeRecord(
+					value,
+					path,
+					this.resolveItemType(propData.valueCtorOrThunk),
+					propData,
+				)
+			case 'tuple':
+				return this.deserializeTuple(value, path, propData)
+			case 'union':
+				return this.deserializeUnion(value, path, propData)
+			case 'enum':
+				return this.deserializeEnumValue(value, path, propData)
+			case 'any':
+				return this.deserializeFromObjectInternal(value, path, undefined, false) // same as AnyType, e.g. to unwrap values of type adapters
+		}
+	}
+
+	private deserializeEnumValue(
+		value: any,
+		path: PropertyOrMapKey[],
+		propData: JsonProperty & { type: 'enum' },
+	): any {
+		const member = this.findEnumMember(value, propData)
+		if (member) return member[1]
+		switch (propData.onUnknownValue ?? 'fail') {
+			case 'keep':
+				return value
+			case 'fallback':
+				return propData.fallbackValue
+			case 'fail':
+				this.reportDeserializationError(
+					this.createUnknownEnumValueError(
+						JsonDeserializationError,
+						value,
+						path,
+						propData,
+					),
+				)
+				return undefined
+		}
+	}
+
+	/**
+	 * Finds the member of an enum by its serialized form: its value, or also its name if {@link JsonEnumOptions.serializeAs | serializeAs} is `'name'`.
+	 */
+	private findEnumMember(
+		value: any,
+		propData: JsonProperty & { type: 'enum' },
+	): [string, string | number] | undefined {
+		return getEnumMembers(propData.enumObject).find(
+			([name, memberValue]) =>
+				memberValue === value ||
+				(propData.serializeAs == 'name' && name === value),
+		)
+	}
+
+	/**
+	 * Deserializes a value declared as union (see {@link jsonUnion}) as the member chosen by the {@link JsonUnionOptions.discriminator | discriminator} function, by the `#type` property or by trying the members in order.
+	 */
+	private deserializeUnion(
+		value: any,
+		path: PropertyOrMapKey[],
+		propData: JsonProperty & { type: 'union' },
+	): any {
+		const member =
+			propData.discriminator?.(value) ??
+			this.resolveUnionMemberByTypeProperty(value, propData) ??
+			propData.memberCtorsOrThunks.find((member) =>
+				this.serializedValueMatchesType(value, member),
+			)
+		if (member) {
+			return this.deserializeItem(
+				value,
+				path,
+				this.resolveItemType(member),
+				false,
+			)
+		}
+		if (this.options.validateOnDeserialization) {
+			const triedMembers = propData.memberCtorsOrThunks
+				.map((member) => `'${this.getTypeName(member) ?? 'any'}'`)
+				.join(', ')
+			this.reportDeserializationError(
+				new JsonDeserializationError(
+					`Value does not match any member of union (tried ${triedMembers}), got ${describeValueType(value)}`,
+					{
+						code: 'INVALID_TYPE',
+						path,
+						expectedType: this.getPropertyTypeName(propData),
+						actualType: describeValueType(value),
+					},
+				),
+			)
+			return undefined
+		}
+		return this.deserializeFromObjectInternal(value, path, undefined, false)
+	}
+
+	/**
+	 * Finds the member of a union whose class is (a superclass of) the class referenced by the `#type` property of the value.
+	 */
+	private resolveUnionMemberByTypeProperty(
+		value: any,
+		propData: JsonProperty & { type: 'union' },
+	): CtorOrDescriptor | undefined {
+		if (!value || typeof value != 'object' || Array.isArray(value)) return
+		const resolvedType = this.options.deserializationClassResolver?.(
+			value,
+			this.options,
+		)
+		const classData =
+			typeof resolvedType == 'string'
+				? this.getClassDataByName(resolvedType)
+				: this.getClassDataByCtor(resolvedType)
+		if (!classData?.ctor) return undefined
+		return propData.memberCtorsOrThunks.find((member) => {
+			if (isTypeDescriptor(member)) return false
+			const ctor = resolveThunk(member)
+			return (
+				typeof ctor == 'function' &&
+				(ctor === classData.ctor || classData.ctor.prototype instanceof ctor)
+			)
+		})
+	}
+
+	/**
+	 * Checks whether a serialized value can be deserialized as the given type, to choose the member of a union: primitive values and values of built-in types are checked by the validator of the type, objects are accepted for a class if they match its discriminator value and contain all of its required properties.
+	 */
+	private serializedValueMatchesType(
+		value: any,
+		ctorOrDescriptor: CtorOrDescriptor,
+	): boolean {
+		if (isTypeDescriptor(ctorOrDescriptor)) {
+			switch (ctorOrDescriptor.type) {
+				case 'union':
+					return ctorOrDescriptor.memberCtorsOrThunks.some((member) =>
+						this.serializedValueMatchesType(value, member),
+					)
+				case 'enum':
+					return !!this.findEnumMember(value, ctorOrDescriptor)
+				default:
+					return this.hasValidShape(value, ctorOrDescriptor)
+			}
+		}
+		const ctor = resolveThunk(ctorOrDescriptor)
+		if (ctor === AnyType) return true
+		if (ctor === Date) {
+			// strict match, as the validator also accepts other formats and any string would otherwise be taken for a date
+			return (
+				value instanceof Date ||
+				isFormattedDate(value, this.getClassFunctionOptions().dateFormat)
+			)
+		}
+		const classData = this.getClassDataByCtor(ctor)
+		if (classData?.options?.validator)
+			return classData.options.validator(value, this.getClassFunctionOptions())
+		if (classData?.options?.deserializer) return true // custom deserializer may accept any kind of value
+		if (!isPlainObject(value)) return false
+		const discriminator = getDiscriminatorForSubType(ctor as Ctor)
+		if (
+			discriminator &&
+			String(value[discriminator.property]) !== discriminator.value
+		) {
+			return false
+		}
+		if (!classData) return true
+		for (const [key, propData] of getAllProperties(classData)) {
+			const inputKey = this.getInputPropertyName(value, key, propData)
+			if (
+				propData.options.required &&
+				value[inputKey as string] === undefined
+			) {
+				return false
+			}
+		}
+		return true
+	}
+
+	/**
+	 * Deserializes a value described by a {@link JsonTypeDescriptor}, e.g. an item of a nested collection or a root collection.
+	 */
+	private deserializeDescribedValue(
+		value: any,
+		path: PropertyOrMapKey[],
+		descriptor: JsonTypeDescriptor,
+	): any {
+		if (value == null) return value
+		if (this.isUndefinedMarker(value)) return undefined
+		if (
+			this.options.circularDependencyReferencePropertyName &&
+			value[this.options.circularDependencyReferencePropertyName]
+		) {
+			// marker for circular reference; do not modify, just mark for later replacement
+			this.encounteredReferencePathsInDeserialization.push(path)
+			return value
+		}
+		if (
+			this.options.validateOnDeserialization &&
+			!this.validatePropertyShape(value, path, descriptor)
+		) {
+			return undefined
+		}
+		return this.deserializePropertyValue(value, path, descriptor)
+	}
+
+	/**
+	 * Gets the class data of the type adapter if the value is a serialized value of a type adapter wrapped as `{"#type": name, "value": serialized}`.
+	 */
+	private getWrappingAdapterClassData(value: any): JsonClassData | undefined {
+		if (!isPlainObject(value) || !('value' in value)) return undefined
+		const typeName = value[this.options.serializationPropertyName]
+		if (typeof typeName != 'string' || Object.keys(value).length != 2) {
+			return undefined
+		}
+		const classData =
+			Array.from(this.adapterClassDataByCtor.values()).find(
+				(classData) => classData.name == typeName,
+			) ??
+			this.getClassDataByName(typeName) ??
+			builtInAdapterClassData.find((classData) => classData.name == typeName)
+		return classData?.adapter ? classData : undefined
+	}
+
+	/**
+	 * Returns whether a value is the marker written for `undefined` collection items if {@link JsonClassSerializerOptions.specialValueEncoding | options.specialValueEncoding} is `'lossless'`.
+	 */
+	private isUndefinedMarker(value: any): boolean {
+		return (
+			isPlainObject(value) &&
+			value[this.options.serializationPropertyName] === 'undefined' &&
+			Object.keys(value).length == 1
+		)
+	}
+
+	/**
+	 * Resolves the declared type of collection items: type descriptors are kept as they are, constructors are resolved to their class data.
+	 */
+	private resolveItemType(
+		ctorOrDescriptor: CtorOrDescriptor | undefined,
+	): JsonClassData | JsonTypeDescriptor | undefined {
+		return isTypeDescriptor(ctorOrDescriptor)
+			? ctorOrDescriptor
+			: this.getClassDataByCtor(ctorOrDescriptor)
+	}
+
+	private deserializeItem(
+		value: any,
+		path: PropertyOrMapKey[],
+		itemType: JsonClassData | JsonTypeDescriptor | undefined,
+		failIfClassNotFound: boolean,
+	): any {
+		return isTypeDescriptor(itemType)
+			? this.deserializeDescribedValue(value, path, itemType)
+			: this.deserializeFromObjectInternal(
+					value,
+					path,
+					itemType,
+					failIfClassNotFound,
+				)
+	}
+
+	private deserializeTuple(
+		value: any[],
+		path: PropertyOrMapKey[],
+		propData: JsonProperty & { type: 'tuple' },
+	): any {
+		if (!Array.isArray(value)) return value // not a tuple; only rejected if options.validateOnDeserialization is set
+		return value.map((item, idx) =>
+			this.deserializeItem(
+				item,
+				path.concat(idx),
+				this.resolveItemType(propData.itemCtorsOrThunks[idx]),
+				false,
+			),
+		)
+	}
+
+	private deserializeRecord(
+		value: any,
+		path: PropertyOrMapKey[],
+		valueType: JsonClassData | JsonTypeDescriptor | undefined,
+		propData: JsonProperty & { type: 'record' },
+	): any {
+		if (typeof value != 'object' || Array.isArray(value)) return value // not a record; only rejected if options.validateOnDeserialization is set
+		const obj: any = {}
+		for (const key of Object.keys(value)) {
+			if (!this.isValidRecordKey(key, propData)) {
+				this.reportDeserializationError(
+					this.createInvalidRecordKeyError(
+						JsonDeserializationError,
+						key,
+						path,
+						propData,
+					),
+				)
+				continue
+			}
+			if (!this.isCopyableKey(key, path)) continue
+			obj[key] = this.deserializeItem(
+				value[key],
+				path.concat(key),
+				valueType,
+				false,
+			)
+		}
+		return obj
+	}
+
 	private deserializeArray(
 		value: any[],
 		path: PropertyOrMapKey[],
-		valueClassData: JsonClassData | undefined,
+		itemType: JsonClassData | JsonTypeDescriptor | undefined,
 		failIfClassNotFound: boolean,
 	): any {
 		return value.map((item, idx) =>
-			this.deserializeFromObjectInternal(
+			this.deserializeItem(
 				item,
 				path.concat(idx),
-				valueClassData,
+				itemType,
 				failIfClassNotFound,
 			),
 		)
@@ -714,40 +2362,67 @@ export class JsonClassSerializer {
 	private deserializeSet(
 		value: any[],
 		path: PropertyOrMapKey[],
-		valueClassData: JsonClassData | undefined,
+		itemType: JsonClassData | JsonTypeDescriptor | undefined,
 	): any {
-		return new Set(this.deserializeArray(value, path, valueClassData, false))
+		return new Set(this.deserializeArray(value, path, itemType, false))
 	}
 
 	private deserializeMap(
-		value: ([any, any] | { key: any; value: any })[],
+		value: ([any, any] | { key: any; value: any })[] | Record<string, any>,
 		path: PropertyOrMapKey[],
-		keyClassData: JsonClassData | undefined,
-		valueClassData: JsonClassData | undefined,
+		keyType: JsonClassData | JsonTypeDescriptor | undefined,
+		valueType: JsonClassData | JsonTypeDescriptor | undefined,
 	): any {
-		const entries: [any, any][] = value.map((entry, idx) => {
+		const serializedEntries = Array.isArray(value)
+			? value
+			: // serialized using map serialization strategy 'object'
+				Object.entries(value).map(([key, value]): [any, any] => [
+					this.parseObjectKey(key, keyType),
+					value,
+				])
+		const { maxMapSize } = this.options.deserializationLimits
+		if (maxMapSize !== undefined && serializedEntries.length > maxMapSize) {
+			throw new JsonDeserializationError(
+				`Map exceeds the maximum size of ${maxMapSize}`,
+				{
+					code: 'LIMIT_EXCEEDED',
+					path,
+					actualType: describeValueType(value),
+				},
+			)
+		}
+		const entries: [any, any][] = serializedEntries.map((entry, idx) => {
 			if (!Array.isArray(entry)) {
 				entry = [entry.key, entry.value]
 			}
 			const [key, value] = entry
 			return [
-				this.deserializeFromObjectInternal(
-					key,
-					[...path, [idx, 0]],
-					keyClassData,
-					false,
-				),
-				this.deserializeFromObjectInternal(
-					value,
-					[...path, [idx, 1]],
-					valueClassData,
-					false,
-				),
+				this.deserializeItem(key, [...path, [idx, 0]], keyType, false),
+				this.deserializeItem(value, [...path, [idx, 1]], valueType, false),
 			] as const
 		})
 		return new Map(entries)
 	}
 
+	/**
+	 * Converts the key of a map serialized as object back to a number if the declared key type is `Number` or a numeric enum.
+	 */
+	private parseObjectKey(
+		key: string,
+		keyType: JsonClassData | JsonTypeDescriptor | undefined,
+	): string | number {
+		if (keyType && keyType === getClassData(Number)) return Number(key)
+		if (
+			isTypeDescriptor(keyType) &&
+			keyType.type == 'enum' &&
+			!this.findEnumMember(key, keyType) &&
+			this.findEnumMember(Number(key), keyType)
+		) {
+			return Number(key)
+		}
+		return key
+	}
+
 	private replaceCircularReferences(obj: any) {
 		if (!this.options.circularDependencyReferencePropertyName) return
 		const rootJsons = this.encounteredRootPathsInDeserialization.map((path) =>
@@ -0,0 +1,437 @@
+import type {
+	Ctor,
+	CtorOrDescriptor,
+	DateFormat,
+	EffectiveJsonClassSerializerOptions,
+	JsonClassData,
+	JsonProperty,
+	JsonSchema,
+} from './types.ts'
+import { AnyType, isTypeDescriptor, resolveThunk } from './types.ts'
+import {
+	getAllProperties,
+	getClassData,
+	getClassRegistry,
+	getDiscriminatorForSubType,
+} from './metadata.ts'
+import { getEnumMembers, getSerializedPropertyName } from './utils.ts'
+import { binaryCtors } from './binary.ts'
+import { specialNumberStrings } from './builtins.ts'
+import { temporalDateTypeNames } from './dates.ts'
+
+const builtInTypeSchemas = new Map<unknown, JsonSchema>([
+	[String, { type: 'string' }],
+	[Number, { type: 'number' }],
+	[Boolean, { type: 'boolean' }],
+	[BigInt, { type: 'string', pattern: '^-?\\d+$' }],
+	[Date, { type: 'string', format: 'date-time' }],
+	[RegExp, { type: 'string', pattern: '^/.*/[a-z]*$' }],
+	[URL, { type: 'string', format: 'uri' }],
+	[
+		Error,
+		{
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				message: { type: 'string' },
+				stack: { type: 'string' },
+				cause: {},
+			},
+			required: ['message'],
+		},
+	],
+])
+const { Temporal } = globalThis as any
+if (Temporal) {
+	// Temporal types are serialized as strings; only some of them match a format defined by JSON Schema
+	for (const [typeName, format] of Object.entries({
+		Instant: 'date-time',
+		PlainDate: 'date',
+		PlainTime: undefined,
+		PlainDateTime: undefined,
+		PlainYearMonth: undefined,
+		PlainMonthDay: undefined,
+		ZonedDateTime: undefined,
+		Duration: 'duration',
+	})) {
+		builtInTypeSchemas.set(
+			Temporal[typeName],
+			format ? { type: 'string', format } : { type: 'string' },
+		)
+	}
+}
+const contentEncodings = {
+	base64: 'base64',
+	base64url: 'base64url',
+	hex: 'base16',
+} as const
+const temporalDateCtors: unknown[] = Temporal
+	? temporalDateTypeNames.map((typeName) => Temporal[typeName])
+	: []
+const primitiveCtors: unknown[] = [String, Number, Boolean, BigInt] // values which are never replaced by circular references
+
+/**
+ * Name of the schema in `$defs` describing circular references (see {@link JsonClassSerializerOptions.circularDependencyReferencePropertyName | options.circularDependencyReferencePropertyName}).
+ */
+const circularReferenceDefName = 'JsonClassSerializer.CircularReference'
+
+/**
+ * Generates a JSON Schema (draft 2020-12) describing the JSON produced by a JsonClassSerializer with the given options.
+ */
+export class JsonSchemaGenerator {
+	private defs: Record<string, JsonSchema> = {}
+	private defNames = new Map<JsonClassData, string>()
+	private propertyDateFormat: DateFormat | undefined // date format of the property currently being described, see JsonPropertyOptions.dateFormat
+
+	constructor(
+		private options: EffectiveJsonClassSerializerOptions,
+		private adapterClassDataByCtor = new Map<unknown, JsonClassData>(),
+	) {}
+
+	/**
+	 * Generates the schema for the given class, or a schema containing all known classes in `$defs` if no class is given.
+	 * @param ctor The class to generate the schema for.
+	 */
+	generate(ctor?: Ctor): JsonSchema {
+		let rootSchema: JsonSchema = {}
+		if (ctor) {
+			rootSchema = this.getSchemaForType(ctor)
+		} else {
+			for (const classData of this.getKnownClasses()) {
+				this.getDefRef(classData, classData.ctor)
+			}
+		}
+		return {
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			...rootSchema,
+			$defs: this.defs,
+		}
+	}
+
+	/**
+	 * Gets the class data of all classes known to the serializer: {@link JsonClassSerializerOptions.additionalClassesToConsider | options.additionalClassesToConsider} and the class registry (see {@link JsonClassSerializerOptions.classRegistry | options.classRegistry}).
+	 */
+	private getKnownClasses(): JsonClassData[] {
+		const knownClasses = new Set<JsonClassData>()
+		for (const ctor of Object.values(
+			resolveThunk(this.options.additionalClassesToConsider),
+		)) {
+			const classData = this.getClassDataByCtor(ctor)
+			if (classData) knownClasses.add(classData)
+		}
+		for (const classData of getClassRegistry(this.options)?.values() ?? []) {
+			knownClasses.add(classData)
+		}
+		return Array.from(knownClasses).filter(
+			(classData) => classData.ctor && !classData.options?.serializer,
+		)
+	}
+
+	private getClassDataByCtor(ctor: Ctor): JsonClassData | undefined {
+		const classData =
+			this.adapterClassDataByCtor.get(ctor) ?? getClassData(ctor)
+		if (classData && !classData.ctor && !classData.options?.deserializer) {
+			classData.ctor = ctor
+		}
+		return classData
+	}
+
+	private getSchemaForType(
+		ctorOrThunk: CtorOrDescriptor | undefined,
+	): JsonSchema {
+		if (!ctorOrThunk) {
+			// properties without declared type can only hold primitive values
+			return { type: ['string', 'number', 'boolean'] }
+		}
+		if (isTypeDescriptor(ctorOrThunk))
+			return this.getSchemaForProperty(ctorOrThunk)
+		const ctor = resolveThunk(ctorOrThunk) as Ctor
+		if (ctor === AnyType) return {}
+		let schema = builtInTypeSchemas.get(ctor)
+		if (binaryCtors.includes(ctor)) {
+			schema = {
+				type: 'string',
+				contentEncoding: contentEncodings[this.options.binaryEncoding],
+			}
+		} else if (ctor === Date || temporalDateCtors.includes(ctor)) {
+			schema = getDateSchema(
+				this.propertyDateFormat ?? this.options.dateFormat,
+				schema!,
+			)
+		} else if (
+			ctor === Number &&
+			this.options.specialValueEncoding == 'lossless'
+		) {
+			schema = {
+				anyOf: [{ type: 'number' }, { enum: specialNumberStrings.slice() }],
+			}
+		} else if (schema) {
+			schema = { ...schema }
+		} else {
+			const classData = this.getClassDataByCtor(ctor)
+			if (classData?.options?.serializer) return {} // custom serialized form is unknown
+			if (!classData) {
+				schema = { type: 'object' }
+			} else {
+				const refs = [
+					{ $ref: this.getDefRef(classData, ctor) },
+					...this.getSubClasses(ctor).map((subClassData) => ({
+						$ref: this.getDefRef(subClassData, subClassData.ctor),
+					})),
+				]
+				schema = refs.length == 1 ? refs[0] : { anyOf: refs }
+			}
+		}
+		return primitiveCtors.includes(ctor)
+			? schema
+			: this.allowCircularReference(schema)
+	}
+
+	/**
+	 * Gets the class data of all known subclasses of the given class, including the subclasses declared in its {@link JsonClassOptions.discriminator | discriminator}.
+	 */
+	private getSubClasses(ctor: Ctor): JsonClassData[] {
+		const subClasses = new Set<JsonClassData>()
+		const discriminator = getClassData(ctor)?.options?.discriminator
+		for (const subCtor of Object.values(
+			discriminator ? resolveThunk(discriminator.subTypes) : {},
+		)) {
+			const classData = this.getClassDataByCtor(subCtor)
+			if (classData) subClasses.add(classData)
+		}
+		for (const classData of this.getKnownClasses()) {
+			if (classData.ctor !== ctor && classData.ctor.prototype instanceof ctor) {
+				subClasses.add(classData)
+			}
+		}
+		return Array.from(subClasses)
+	}
+
+	private getSchemaForProperty(propData: JsonProperty): JsonSchema {
+		if (propData.options.serializer || propData.options.deserializer) {
+			return {} // custom serialized form is unknown
+		}
+		switch (propData.type) {
+			case 'class':
+				return this.getSchemaForType(propData.valueCtorOrThunk)
+			case 'array':
+			case 'set':
+				return this.allowCircularReference({
+					type: 'array',
+					items: this.getSchemaForType(propData.valueCtorOrThunk),
+				})
+			case 'map': {
+				const keySchema = this.getSchemaForType(propData.keyCtorOrThunk)
+				const valueSchema = this.getSchemaForType(propData.valueCtorOrThunk)
+				const strategy =
+					propData.options.mapSerializationStrategy ??
+					this.options.mapSerializationStrategy
+				if (strategy != 'object') {
+					return this.allowCircularReference(
+						getMapArraySchema(strategy, keySchema, valueSchema),
+					)
+				}
+				const objectSchema = {
+					type: 'object',
+					additionalProperties: valueSchema,
+				}
+				const fallbackStrategy = this.options.mapSerializationFallbackStrategy
+				return this.allowCircularReference(
+					fallbackStrategy == 'fail'
+						? objectSchema
+						: {
+								anyOf: [
+									objectSchema,
+									getMapArraySchema(fallbackStrategy, keySchema, valueSchema),
+								],
+							},
+				)
+			}
+			case 'record':
+				return this.allowCircularReference({
+					type: 'object',
+					additionalProperties: this.getSchemaForType(
+						propData.valueCtorOrThunk,
+					),
+					...(propData.options.keyPattern
+						? { propertyNames: { pattern: propData.options.keyPattern.source } }
+						: {}),
+				})
+			case 'tuple':
+				return this.allowCircularReference({
+					type: 'array',
+					prefixItems: propData.itemCtorsOrThunks.map((itemType) =>
+						this.getSchemaForType(itemType),
+					),
+					items: false,
+				})
+			case 'union': {
+				const memberSchemas = propData.memberCtorsOrThunks.flatMap((member) => {
+					const schema = this.getSchemaForType(member)
+					return schema.anyOf ?? [schema]
+				})
+				const uniqueMemberSchemas = Array.from(
+					new Map(
+						memberSchemas.map((schema) => [JSON.stringify(schema), schema]),
+					).values(),
+				) // members may share the circular reference schema
+				return { anyOf: uniqueMemberSchemas }
+			}
+			case 'enum':
+				return {
+					enum: getEnumMembers(propData.enumObject).map(([name, value]) =>
+						propData.serializeAs == 'name' ? name : value,
+					),
+				}
+			case 'any':
+				return {}
+		}
+	}
+
+	/**
+	 * Gets the reference to the schema of the given class in `$defs`, adding the schema to `$defs` if necessary.
+	 */
+	private getDefRef(classData: JsonClassData, ctor: Ctor): string {
+		let defName = this.defNames.get(classData)
+		if (!defName) {
+			const baseName = classData.name || ctor.name || 'Anonymous'
+			defName = baseName
+			for (let idx = 2; defName in this.defs; idx++) {
+				defName = `${baseName}${idx}` // different classes registered under the same name
+			}
+			this.defNames.set(classData, defName)
+			this.defs[defName] = {} // placeholder to support recursive classes
+			this.defs[defName] = this.getClassSchema(classData, ctor)
+		}
+		return getRefToDef(defName)
+	}
+
+	private getClassSchema(classData: JsonClassData, ctor: Ctor): JsonSchema {
+		const properties: Record<string, JsonSchema> = {}
+		const required: string[] = []
+		const discriminator = getDiscriminatorForSubType(ctor)
+		if (discriminator) {
+			properties[discriminator.property] = { const: discriminator.value }
+			required.push(discriminator.property)
+		}
+		if (classData.name) {
+			// only written if the class cannot be inferred from the declared type
+			properties[this.options.serializationPropertyName] = {
+				const: classData.name,
+			}
+		}
+		if (classData.options?.version !== undefined) {
+			properties[this.options.versionPropertyName] = {
+				const: classData.options.version,
+			}
+		}
+		for (const [key, propData] of getAllProperties({ ...classData, ctor })) {
+			if (typeof key == 'symbol') continue // symbol keys are not serialized to JSON
+			const name = String(
+				getSerializedPropertyName(key, propData, this.options),
+			)
+			const outerDateFormat = this.propertyDateFormat
+			this.propertyDateFormat = propData.options.dateFormat
+			let schema = this.getSchemaForProperty(propData)
+			this.propertyDateFormat = outerDateFormat
+			if (propData.options.nullable !== false) schema = allowNull(schema)
+			const defaultValue = propData.options.defaultValue
+			if (
+				defaultValue === null ||
+				['string', 'number', 'boolean'].includes(typeof defaultValue)
+			) {
+				schema.default = defaultValue
+			}
+			properties[name] = schema
+			if (propData.options.required) required.push(name)
+		}
+		if (this.options.circularDependencyLevelPropertyName) {
+			properties[this.options.circularDependencyLevelPropertyName] = {
+				type: 'integer',
+				minimum: 0,
+			}
+		}
+		return {
+			type: 'object',
+			properties,
+			...(required.length ? { required } : {}),
+		}
+	}
+
+	/**
+	 * Allows the value described by the given schema to be replaced by a circular reference if {@link JsonClassSerializerOptions.circularDependencyReferencePropertyName | options.circularDependencyReferencePropertyName} is set.
+	 */
+	private allowCircularReference(schema: JsonSchema): JsonSchema {
+		const refPropertyName = this.options.circularDependencyReferencePropertyName
+		if (!refPropertyName) return schema
+		if (!(circularReferenceDefName in this.defs)) {
+			this.defs[circularReferenceDefName] = {
+				type: 'object',
+				properties: {
+					[refPropertyName]: {
+						type: 'array',
+						items: { type: ['string', 'integer'] },
+					},
+				},
+				required: [refPropertyName],
+			}
+		}
+		const ref = { $ref: getRefToDef(circularReferenceDefName) }
+		return schema.anyOf
+			? { anyOf: [...schema.anyOf, ref] }
+			: { anyOf: [schema, ref] }
+	}
+}
+
+function allowNull(schema: JsonSchema): JsonSchema {
+	if (Object.keys(schema).length == 0) return schema // any value
+	if (typeof schema.type == 'string') {
+		return { ...schema, type: [schema.type, 'null'] }
+	}
+	return schema.anyOf
+		? { anyOf: [...schema.anyOf, { type: 'null' }] }
+		: { anyOf: [schema, { type: 'null' }] }
+}
+
+function getMapArraySchema(
+	strategy: 'arrayOfEntries' | 'arrayOfKeyValueObjects',
+	keySchema: JsonSchema,
+	valueSchema: JsonSchema,
+): JsonSchema {
+	return {
+		type: 'array',
+		items:
+			strategy == 'arrayOfKeyValueObjects'
+				? {
+						type: 'object',
+						properties: { key: keySchema, value: valueSchema },
+						required: ['key'],
+					}
+				: {
+						type: 'array',
+						prefixItems: [keySchema, valueSchema],
+						minItems: 2,
+						maxItems: 2,
+					},
+	}
+}
+
+function getRefToDef(defName: string): string {
+	// escape as JSON pointer (RFC 6901) within a URI fragment
+	return `#/$defs/${encodeURIComponent(defName.replace(/~/g, '~0').replace(/\//g, '~1'))}`
+}
+
+/**
+ * Gets the schema of a date (or Temporal value) serialized in the given format; `isoSchema` describes the ISO 8601 form.
+ */
+function getDateSchema(format: DateFormat, isoSchema: JsonSchema): JsonSchema {
+	switch (format) {
+		case 'epochMilliseconds':
+		case 'epochSeconds':
+			return { type: 'integer' }
+		case 'date':
+			return { type: 'string', format: 'date' }
+		default:
+			return { ...isoSchema }
+	}
+}
@@ -1,93 +1,232 @@
 import { JsonClassSerializer } from './mod.ts'
 import type {
-	CtorOrThunk,
+	Ctor,
+	CtorOrDescriptor,
+	DescribedType,
+	JsonTypeDescriptor,
+	JsonTypeBuilder,
 	JsonClassData,
 	JsonPropertyOptions,
 	JsonProperty,
 	MaybeThunk,
 	JsonClassOptions,
-	AnyType,
+	JsonClassDecorator,
+	JsonPropertyAccess,
+	JsonPropertyDecorator,
+	JsonRecordPropertyOptions,
+	JsonUnionOptions,
+	JsonEnumOptions,
+	JsonLifecycleHookDecorator,
+	JsonMethodDecorator,
+	JsonClassRegistryOptions,
+	DuplicateClassNameHandling,
+	EffectiveJsonClassSerializerOptions,
+	JsonTypeAdapter,
+	LifecycleHook,
 } from './types.ts'
-import { resolveThunk } from './types.ts'
 import {
-	arrayBufferToBase64,
-	base64ToArrayBuffer,
-	base64ToDataView,
-	base64ToUint8Array,
-	dataViewToBase64,
-	uint8ArrayToBase64,
-} from './utils.ts'
+	isTypeDescriptor,
+	JsonTypeDescriptorSymbol,
+	resolveThunk,
+} from './types.ts'
+import { succeeds } from './utils.ts'
+import { JsonClassSerializerError } from './errors.ts'
+import {
+	binaryCtors,
+	decodeBinary,
+	encodeBinary,
+	isEncodedBinary,
+} from './binary.ts'
+import {
+	formatDate,
+	formatTemporal,
+	parseDate,
+	parseTemporal,
+} from './dates.ts'
+import {
+	decodeSpecialNumber,
+	deserializeError,
+	isEncodedSpecialNumber,
+	isSerializedError,
+	parseRegExp,
+	serializeError,
+} from './builtins.ts'
 
 export const classDataByCtor = new WeakMap<any, JsonClassData>([
-	[String, { options: { deserializer: (value: string) => value } }],
-	[Number, { options: { deserializer: (value: number) => value } }],
-	[Boolean, { options: { deserializer: (value: boolean) => value } }],
-	[Date, { options: { deserializer: (value: string) => new Date(value) } }],
-	[BigInt, { options: { deserializer: (value: string) => BigInt(value) } }],
 	[
-		ArrayBuffer,
+		String,
 		{
+			name: 'String',
 			options: {
-				serializer: arrayBufferToBase64,
-				deserializer: base64ToArrayBuffer,
+				deserializer: (value: string) => value,
+				validator: (value) => typeof value == 'string',
 			},
 		},
 	],
 	[
-		Uint8Array,
+		Number,
 		{
+			name: 'Number',
 			options: {
-				serializer: uint8ArrayToBase64,
-				deserializer: base64ToUint8Array,
+				deserializer: (value: number | string, options) =>
+					decodeSpecialNumber(value, options.specialValueEncoding),
+				validator: (value, options) =>
+					typeof value == 'number' ||
+					(options.specialValueEncoding == 'lossless' &&
+						isEncodedSpecialNumber(value)),
 			},
 		},
 	],
 	[
-		DataView,
+		Boolean,
 		{
-			options: { serializer: dataViewToBase64, deserializer: base64ToDataView },
+			name: 'Boolean',
+			options: {
+				deserializer: (value: boolean) => value,
+				validator: (value) => typeof value == 'boolean',
+			},
 		},
 	],
-])
-const { Temporal } = globalThis as any
-if (Temporal) {
-	// Temporal types are only available in environments that support Temporal
-	classDataByCtor.set(Temporal.Instant, {
-		options: { deserializer: (value: string) => Temporal.Instant.from(value) },
-	})
-	classDataByCtor.set(Temporal.PlainDate, {
-		options: {
-			deserializer: (value: string) => Temporal.PlainDate.from(value),
+	[
+		Date,
+		{
+			name: 'Date',
+			options: {
+				serializer: (value: Date, options) =>
+					formatDate(value, options.dateFormat),
+				deserializer: (value, options) => parseDate(value, options.dateFormat),
+				validator: (value, options) =>
+					succeeds(() => parseDate(value, options.dateFormat)),
+			},
 		},
-	})
-	classDataByCtor.set(Temporal.PlainTime, {
-		options: {
-			deserializer: (value: string) => Temporal.PlainTime.from(value),
+	],
+	[
+		BigInt,
+		{
+			name: 'BigInt',
+			options: {
+				deserializer: (value: string) => BigInt(value),
+				validator: (value) =>
+					typeof value == 'bigint' ||
+					((typeof value == 'string' || typeof value == 'number') &&
+						succeeds(() => BigInt(value))),
+			},
 		},
-	})
-	classDataByCtor.set(Temporal.PlainDateTime, {
-		options: {
-			deserializer: (value: string) => Temporal.PlainDateTime.from(value),
+	],
+	[
+		RegExp,
+		{
+			name: 'RegExp',
+			options: {
+				serializer: (value: RegExp) => value.toString(),
+				deserializer: (value: string | RegExp) =>
+					value instanceof RegExp ? value : parseRegExp(value),
+				validator: (value) =>
+					value instanceof RegExp ||
+					(typeof value == 'string' && succeeds(() => parseRegExp(value))),
+			},
 		},
-	})
-	classDataByCtor.set(Temporal.PlainYearMonth, {
-		options: {
-			deserializer: (value: string) => Temporal.PlainYearMonth.from(value),
+	],
+	[
+		URL,
+		{
+			name: 'URL',
+			options: {
+				serializer: (value: URL) => value.href,
+				deserializer: (value: string | URL) =>
+					value instanceof URL ? value : new URL(value),
+				validator: (value) =>
+					value instanceof URL ||
+					(typeof value == 'string' && succeeds(() => new URL(value))),
+			},
 		},
-	})
-	classDataByCtor.set(Temporal.PlainMonthDay, {
+	],
+	[
+		Error,
+		{
+			name: 'Error',
+			adapter: { ctor: Error }, // wrapped like values of type adapters where the type can't be inferred, e.g. within AnyType structures
+			options: {
+				serializer: serializeError,
+				deserializer: deserializeError,
+				validator: (value) =>
+					value instanceof Error || isSerializedError(value),
+			},
+		},
+	],
+])
+
+/**
+ * Class data of built-in types that are handled like type adapters (see {@link JsonClassData.adapter}), to find them by the name written to wrapped values.
+ */
+export const builtInAdapterClassData: JsonClassData[] = [
+	classDataByCtor.get(Error)!,
+]
+
+for (const ctor of binaryCtors) {
+	classDataByCtor.set(ctor, {
+		name: ctor.name,
 		options: {
-			deserializer: (value: string) => Temporal.PlainMonthDay.from(value),
+			serializer: (value, options) =>
+				encodeBinary(value, options.binaryEncoding),
+			deserializer: (value, options) =>
+				decodeBinary(value, ctor, options.binaryEncoding),
+			validator: (value, options) =>
+				value instanceof ctor ||
+				isEncodedBinary(value, ctor, options.binaryEncoding),
 		},
 	})
-	classDataByCtor.set(Temporal.ZonedDateTime, {
+}
+const { Temporal } = globalThis as any
+if (Temporal) {
+	// Temporal types are only available in environments that support Temporal
+	for (const typeName of [
+		'Instant',
+		'PlainDate',
+		'PlainTime',
+		'PlainDateTime',
+		'PlainYearMonth',
+		'PlainMonthDay',
+		'ZonedDateTime',
+		'Duration',
+	]) {
+		const ctor = Temporal[typeName]
+		classDataByCtor.set(ctor, {
+			name: `Temporal.${typeName}`,
+			options: {
+				serializer: (value, options) =>
+					formatTemporal(value, typeName, options.dateFormat),
+				deserializer: (value, options) =>
+					parseTemporal(value, ctor, typeName, options.dateFormat),
+				validator: (value, options) =>
+					succeeds(() =>
+						parseTemporal(value, ctor, typeName, options.dateFormat),
+					),
+			},
+		})
+	}
+}
+
+/**
+ * Class data of the type adapters registered globally that have a {@link JsonTypeAdapter.test | test} function.
+ */
+export const testedAdapterClassData: JsonClassData[] = []
+
+/**
+ * Creates the class data describing a type adapter (see {@link JsonClassSerializer.registerAdapter}).
+ */
+export function createAdapterClassData(
+	ctor: Ctor,
+	adapter: JsonTypeAdapter,
+): JsonClassData {
+	return {
+		name: adapter.name,
+		adapter: { ctor, test: adapter.test },
 		options: {
-			deserializer: (value: string) => Temporal.ZonedDateTime.from(value),
+			serializer: adapter.serialize,
+			deserializer: adapter.deserialize,
 		},
-	})
-	classDataByCtor.set(Temporal.Duration, {
-		options: { deserializer: (value: string) => Temporal.Duration.from(value) },
-	})
+	}
 }
 
 /**
@@ -99,26 +238,155 @@ export const classDataByName =
 ;(globalThis as any)[ClassDataSymbol] = classDataByName
 
 /**
- * Decorator to globally register a class for serialization/deserialization.
+ * Registry of classes by name, used to resolve the class of a serialized object from its `#type` property. Classes decorated with `@jsonClass` are registered in the global registry ({@link JsonClassRegistry.global}) unless another registry is given using {@link JsonClassOptions.registry}. Use separate registries to isolate classes with the same name, e.g. of different bounded contexts, and pass them to a serializer using {@link JsonClassSerializerOptions.classRegistry | options.classRegistry}.
+ * @example
+ * ```typescript
+ * const billing = new JsonClassRegistry({ namespace: 'billing' })
+ *
+ * @jsonClass('User', { registry: billing }) // registered as 'billing.User'
+ * class User {}
+ *
+ * const jcs = new JsonClassSerializer({ classRegistry: billing })
+ * ```
+ */
+export class JsonClassRegistry {
+	/**
+	 * The global registry, shared by all copies of JsonClassSerializer.
+	 */
+	static readonly global: JsonClassRegistry = new JsonClassRegistry(
+		{},
+		classDataByName,
+	)
+
+	/**
+	 * Namespace prepended to the names of the registered classes (see {@link JsonClassRegistryOptions.namespace}).
+	 */
+	readonly namespace: string | undefined
+	/**
+	 * What to do if a different class is registered under a name that is already taken (see {@link JsonClassRegistryOptions.onDuplicateName}).
+	 */
+	onDuplicateName: DuplicateClassNameHandling
+
+	/**
+	 * Creates a new, empty registry.
+	 * @param options Options of the registry.
+	 * @param classDataByName Map to store the classes in (only used for the global registry).
+	 */
+	constructor(
+		options: JsonClassRegistryOptions = {},
+		private readonly classDataByName: Map<string, JsonClassData> = new Map(),
+	) {
+		this.namespace = options.namespace
+		this.onDuplicateName = options.onDuplicateName ?? 'overwrite'
+	}
+
+	/**
+	 * Registers a class, e.g. a class decorated with `@jsonClass` that should also be known to this registry. The class is serialized with the registered name from now on.
+	 * @param ctor The class to register.
+	 * @param name The name of the class, without the namespace of the registry. Default: the name of the class (see {@link JsonClassSerializerOptions.classNameResolver | options.classNameResolver})
+	 */
+	register(ctor: Ctor, name?: string): void {
+		const data = ensureJsonClassData(ctor)
+		data.name = this.getQualifiedName(
+			name || JsonClassSerializer.defaultOptions.classNameResolver(ctor),
+		)
+		data.ctor = ctor
+		data.options ??= {}
+		this.add(data)
+	}
+
+	/**
+	 * Gets the class data of the class registered under the given (qualified) name.
+	 */
+	get(name: string): JsonClassData | undefined {
+		return this.classDataByName.get(name)
+	}
+
+	/**
+	 * Returns whether a class is registered under the given (qualified) name.
+	 */
+	has(name: string): boolean {
+		return this.classDataByName.has(name)
+	}
+
+	/**
+	 * Gets the class data of all registered classes.
+	 */
+	values(): IterableIterator<JsonClassData> {
+		return this.classDataByName.values()
+	}
+
+	/**
+	 * Prepends the namespace of the registry to a name.
+	 */
+	getQualifiedName(name: string): string {
+		return this.namespace ? `${this.namespace}.${name}` : name
+	}
+
+	/**
+	 * Adds class data under its name, handling names that are already taken according to {@link JsonClassRegistry.onDuplicateName | onDuplicateName}.
+	 */
+	add(data: JsonClassData): void {
+		const name = data.name!
+		const existing = this.classDataByName.get(name)
+		if (
+			existing &&
+			existing !== data &&
+			existing.ctor !== data.ctor &&
+			this.onDuplicateName != 'overwrite'
+		) {
+			const message = `Class name '${name}' is already registered for another class${this.namespace ? ` in namespace '${this.namespace}'` : ''}`
+			if (this.onDuplicateName == 'throw') {
+				throw new JsonClassSerializerError(message, {
+					code: 'DUPLICATE_CLASS_NAME',
+					expectedType: name,
+				})
+			}
+			console.warn(message)
+		}
+		this.classDataByName.set(name, data)
+	}
+}
+
+/**
+ * Gets the registry a serializer with the given options resolves class names in: {@link JsonClassSerializerOptions.classRegistry | options.classRegistry}, or the global registry if {@link JsonClassSerializerOptions.useGlobalClassRegistry | options.useGlobalClassRegistry} is set.
+ */
+export function getClassRegistry(
+	options: EffectiveJsonClassSerializerOptions,
+): JsonClassRegistry | undefined {
+	return (
+		options.classRegistry ??
+		(options.useGlobalClassRegistry ? JsonClassRegistry.global : undefined)
+	)
+}
+
+// TC39 standard decorators only provide `context.metadata` if Symbol.metadata exists when the class is defined
+;(Symbol as any).metadata ??= Symbol.for('Symbol.metadata')
+
+/**
+ * Decorator to register a class for serialization/deserialization, in the global registry or the registry given by {@link JsonClassOptions.registry | options.registry}.
  * @param name The name of the class. If not provided, the class name will be used (explicitly provide a name if you use mangling during code minimization).
  * @param options Options for the class.
  */
 export function jsonClass(
 	name?: MaybeThunk<string | null>,
 	options: JsonClassOptions = {},
-): ClassDecorator {
-	return (ctor: any) => {
-		const data = ensureJsonClassData(ctor)
+): JsonClassDecorator {
+	return (ctor: any, context?: ClassDecoratorContext) => {
+		const data = ensureJsonClassData(ctor, context?.metadata)
+		const registry = options.registry ?? JsonClassRegistry.global
 		data.name =
 			name !== null
-				? resolveThunk(name) ||
-					JsonClassSerializer.defaultOptions.classNameResolver(ctor)
+				? registry.getQualifiedName(
+						resolveThunk(name) ||
+							JsonClassSerializer.defaultOptions.classNameResolver(ctor),
+					)
 				: undefined
 		data.ctor = ctor
 		data.options = options
 		ctor.prototype[ClassDataSymbol] = data
 		if (data.name) {
-			classDataByName.set(data.name, data)
+			registry.add(data)
 		}
 
 		ctor.prototype.toJSON = function () {
@@ -129,79 +397,201 @@ export function jsonClass(
 	}
 }
 
+/**
+ * Builders for type descriptors of nested collections and tuples, which can be used wherever a property type is expected (e.g. `@jsonProperty(jsonType.array(jsonType.array(Person)))` for `Person[][]`, `@jsonMapProperty(String, jsonType.set(Tag))` for `Map<string, Set<Tag>>`) and as type in {@link JsonClassSerializer.deserializeFromObject} / {@link JsonClassSerializer.deserializeFromJson} to deserialize typed root collections.
+ */
+export const jsonType: JsonTypeBuilder = {
+	array<T extends CtorOrDescriptor>(
+		itemType: T,
+	): JsonTypeDescriptor<DescribedType<T>[]> {
+		return createTypeDescriptor({
+			type: 'array',
+			options: {},
+			valueCtorOrThunk: itemType,
+		})
+	},
+	set<T extends CtorOrDescriptor>(
+		itemType: T,
+	): JsonTypeDescriptor<Set<DescribedType<T>>> {
+		return createTypeDescriptor({
+			type: 'set',
+			options: {},
+			valueCtorOrThunk: itemType,
+		})
+	},
+	map<K extends CtorOrDescriptor, V extends CtorOrDescriptor>(
+		keyType: K,
+		valueType: V,
+		options: Pick<JsonPropertyOptions, 'mapSerializationStrategy'> = {},
+	): JsonTypeDescriptor<Map<DescribedType<K>, DescribedType<V>>> {
+		return createTypeDescriptor({
+			type: 'map',
+			options,
+			keyCtorOrThunk: keyType,
+			valueCtorOrThunk: valueType,
+		})
+	},
+	record<V extends CtorOrDescriptor>(
+		valueType: V,
+		options: Pick<JsonRecordPropertyOptions, 'keyPattern'> = {},
+	): JsonTypeDescriptor<Record<string, DescribedType<V>>> {
+		return createTypeDescriptor({
+			type: 'record',
+			options,
+			valueCtorOrThunk: valueType,
+		})
+	},
+	tuple<T extends CtorOrDescriptor[]>(
+		...itemTypes: T
+	): JsonTypeDescriptor<{ [K in keyof T]: DescribedType<T[K]> }> {
+		return createTypeDescriptor({
+			type: 'tuple',
+			options: {},
+			itemCtorsOrThunks: itemTypes,
+		})
+	},
+}
+
+function createTypeDescriptor(propertyData: JsonProperty): JsonTypeDescriptor {
+	return { ...propertyData, [JsonTypeDescriptorSymbol]: true }
+}
+
+/**
+ * Describes a TypeScript enum (e.g. `jsonEnum(Status)`), which can be used wherever a property type is expected (e.g. `@jsonProperty(jsonEnum(Status))`, `@jsonArrayProperty(jsonEnum(Status))`). Values are checked against the members of the enum during deserialization (and during serialization, if {@link JsonClassSerializerOptions.validateOnSerialization | options.validateOnSerialization} is set).
+ * @param enumObject The enum.
+ * @param options Options for the enum, e.g. to serialize numeric enums by member name.
+ */
+export function jsonEnum<E extends Record<string, string | number>>(
+	enumObject: E,
+	options: JsonEnumOptions<E[keyof E]> = {},
+): JsonTypeDescriptor<E[keyof E]> {
+	return createTypeDescriptor({
+		type: 'enum',
+		options: {},
+		enumObject,
+		...options,
+	})
+}
+
+/**
+ * Describes a union of types (e.g. `jsonUnion(CreditCard, BankTransfer)` for `CreditCard | BankTransfer`, `jsonUnion(Date, String)` for `Date | string`), which can be used wherever a property type is expected. During deserialization, the member type of a value is chosen
+ * 1. by the {@link JsonUnionOptions.discriminator | discriminator} function, if given,
+ * 2. by the `#type` property of the value (see {@link JsonClassSerializerOptions.serializationPropertyName | options.serializationPropertyName}), which is always written for class instances in unions,
+ * 3. by trying the members in order and choosing the first one the value is valid for (e.g. a string that is a valid date for `Date`, an object having all required properties for a class).
+ *
+ * If no member matches, a {@link JsonClassSerializerError} with code `'INVALID_TYPE'` listing the tried members is reported if {@link JsonClassSerializerOptions.validateOnDeserialization | options.validateOnDeserialization} is set; otherwise the value is deserialized as if it had no declared type.
+ * @param memberTypes The member types, in the order in which they are tried.
+ */
+export function jsonUnion<T extends CtorOrDescriptor[]>(
+	...memberTypes: T
+): JsonTypeDescriptor<DescribedType<T[number]>>
+/**
+ * Describes a union of types whose member type is chosen by the given {@link JsonUnionOptions.discriminator | discriminator} function (e.g. `jsonUnion([CreditCard, BankTransfer], { discriminator: (value) => (value.iban ? BankTransfer : CreditCard) })`).
+ * @param memberTypes The member types, in the order in which they are tried.
+ * @param options Options for the union.
+ */
+export function jsonUnion<T extends CtorOrDescriptor[]>(
+	memberTypes: [...T],
+	options: JsonUnionOptions,
+): JsonTypeDescriptor<DescribedType<T[number]>>
+export function jsonUnion(...args: any[]): JsonTypeDescriptor {
+	const [memberTypes, options]: [CtorOrDescriptor[], JsonUnionOptions] =
+		Array.isArray(args[0]) ? [args[0], args[1] ?? {}] : [args, {}]
+	return createTypeDescriptor({
+		type: 'union',
+		options: {},
+		memberCtorsOrThunks: memberTypes,
+		discriminator: options.discriminator,
+	})
+}
+
 /**
  * Decorator to register a property for serialization/deserialization. Properties not decorated with this decorator will be ignored when serializing/deserializing.
- * @param ctorOrThunk The constructor of the property type, or an arrow function that returns the constructor of the property type. Must be provided unless the property type is string/number/boolean.
+ * @param ctorOrThunk The constructor of the property type, or an arrow function that returns the constructor of the property type, or a type descriptor created using {@link jsonType}. Must be provided unless the property type is string/number/boolean.
  * @param options Options for the property.
  */
 export function jsonProperty(
-	ctorOrThunk?: CtorOrThunk,
+	ctorOrThunk?: CtorOrDescriptor,
 	options: JsonPropertyOptions = {},
-): PropertyDecorator {
-	return function (target: any, propertyKey: string | symbol) {
-		setPropertyInternal(target.constructor, propertyKey, {
-			type: 'class',
-			options,
-			valueCtorOrThunk: ctorOrThunk,
-		})
+): JsonPropertyDecorator {
+	if (isTypeDescriptor(ctorOrThunk)) {
+		return createPropertyDecorator({
+			...ctorOrThunk,
+			options: { ...ctorOrThunk.options, ...options },
+		} as JsonProperty)
 	}
+	return createPropertyDecorator({
+		type: 'class',
+		options,
+		valueCtorOrThunk: ctorOrThunk,
+	})
 }
 
 /**
  * Decorator to register a property for serialization/deserialization as an array.
- * @param ctorOrThunk The constructor of the array item type, or an arrow function that returns the constructor of the array item type. Must always be set; if item typ is string/number/boolean, provide String/Number/Boolean.
+ * @param ctorOrThunk The constructor of the array item type, or an arrow function that returns the constructor of the array item type, or a type descriptor created using {@link jsonType}. Must always be set; if item typ is string/number/boolean, provide String/Number/Boolean.
  * @param options Options for the property.
  */
 export function jsonArrayProperty(
-	ctorOrThunk: CtorOrThunk | typeof AnyType,
+	ctorOrThunk: CtorOrDescriptor,
 	options: JsonPropertyOptions = {},
-): PropertyDecorator {
-	return (target, propertyKey) => {
-		setPropertyInternal(target.constructor, propertyKey, {
-			type: 'array',
-			options,
-			valueCtorOrThunk: ctorOrThunk,
-		})
-	}
+): JsonPropertyDecorator {
+	return createPropertyDecorator({
+		type: 'array',
+		options,
+		valueCtorOrThunk: ctorOrThunk,
+	})
 }
 
 /**
  * Decorator to register a property for serialization/deserialization as a map.
- * @param keyCtorOrThunk The constructor of the map key type, or an arrow function that returns the constructor of the map key type. Must always be set; if key type is string/number/boolean, provide String/Number/Boolean.
- * @param valueCtorOrThunk The constructor of the map value type, or an arrow function that returns the constructor of the map value type. Must always be set; if value type is string/number/boolean, provide String/Number/Boolean.
+ * @param keyCtorOrThunk The constructor of the map key type, or an arrow function that returns the constructor of the map key type, or a type descriptor created using {@link jsonType}. Must always be set; if key type is string/number/boolean, provide String/Number/Boolean.
+ * @param valueCtorOrThunk The constructor of the map value type, or an arrow function that returns the constructor of the map value type, or a type descriptor created using {@link jsonType}. Must always be set; if value type is string/number/boolean, provide String/Number/Boolean.
  * @param options Options for the property.
  */
 export function jsonMapProperty(
-	keyCtorOrThunk: CtorOrThunk | typeof AnyType,
-	valueCtorOrThunk: CtorOrThunk | typeof AnyType,
+	keyCtorOrThunk: CtorOrDescriptor,
+	valueCtorOrThunk: CtorOrDescriptor,
 	options: JsonPropertyOptions = {},
-): PropertyDecorator {
-	return (target, propertyKey) => {
-		setPropertyInternal(target.constructor, propertyKey, {
-			type: 'map',
-			options,
-			keyCtorOrThunk,
-			valueCtorOrThunk,
-		})
-	}
+): JsonPropertyDecorator {
+	return createPropertyDecorator({
+		type: 'map',
+		options,
+		keyCtorOrThunk,
+		valueCtorOrThunk,
+	})
 }
 
 /**
  * Decorator to register a property for serialization/deserialization as a set.
- * @param ctorOrThunk The constructor of the set item type, or an arrow function that returns the constructor of the set item type. Must always be set; if item type is string/number/boolean, provide String/Number/Boolean.
+ * @param ctorOrThunk The constructor of the set item type, or an arrow function that returns the constructor of the set item type, or a type descriptor created using {@link jsonType}. Must always be set; if item type is string/number/boolean, provide String/Number/Boolean.
  * @param options Options for the property.
  */
 export function jsonSetProperty(
-	ctorOrThunk: CtorOrThunk | typeof AnyType,
+	ctorOrThunk: CtorOrDescriptor,
 	options: JsonPropertyOptions = {},
-): PropertyDecorator {
-	return (target, propertyKey) => {
-		setPropertyInternal(target.constructor, propertyKey, {
-			type: 'set',
-			options,
-			valueCtorOrThunk: ctorOrThunk,
-		})
-	}
+): JsonPropertyDecorator {
+	return createPropertyDecorator({
+		type: 'set',
+		options,
+		valueCtorOrThunk: ctorOrThunk,
+	})
+}
+
+/**
+ * Decorator to register a property for serialization/deserialization as a record (dictionary object with string keys, e.g. `Record<string, Person>`), which is serialized as plain object.
+ * @param ctorOrThunk The constructor of the record value type, or an arrow function that returns the constructor of the record value type, or a type descriptor created using {@link jsonType}. Must always be set; if value type is string/number/boolean, provide String/Number/Boolean.
+ * @param options Options for the property.
+ */
+export function jsonRecordProperty(
+	ctorOrThunk: CtorOrDescriptor,
+	options: JsonRecordPropertyOptions = {},
+): JsonPropertyDecorator {
+	return createPropertyDecorator({
+		type: 'record',
+		options,
+		valueCtorOrThunk: ctorOrThunk,
+	})
 }
 
 /**
@@ -210,30 +600,363 @@ export function jsonSetProperty(
  */
 export function jsonAnyProperty(
 	options: JsonPropertyOptions = {},
-): PropertyDecorator {
-	return (target, propertyKey) => {
-		setPropertyInternal(target.constructor, propertyKey, {
-			type: 'any',
-			options,
-		})
+): JsonPropertyDecorator {
+	return createPropertyDecorator({
+		type: 'any',
+		options,
+	})
+}
+
+/**
+ * Decorator to register a static factory method that creates instances of the class during deserialization, e.g. for immutable classes or classes with validation. Instead of creating an instance without arguments and assigning the deserialized property values to it, the method is called with the deserialized property values and must return the instance.
+ * - With property keys: the method is called with the values of these properties (in this order). Properties not listed are assigned to the returned instance.
+ * - Without property keys: the method is called with a single object containing the values of all properties by property key.
+ *
+ * Errors thrown by the method are reported as {@link JsonClassSerializerError} with code `'INSTANTIATION_FAILED'`. The factory method is not used for subclasses. To pass property values to the constructor instead, use {@link JsonClassOptions.constructorParameters}.
+ * @param propertyKeys Keys of the properties whose values are passed to the method.
+ * @example
+ * ```typescript
+ * class Point {
+ *   @jsonProperty(Number)
+ *   readonly x: number
+ *   @jsonProperty(Number)
+ *   readonly y: number
+ *
+ *   constructor(x: number, y: number) {
+ *     this.x = x
+ *     this.y = y
+ *     Object.freeze(this)
+ *   }
+ *
+ *   @jsonCreator('x', 'y')
+ *   static of(x: number, y: number) {
+ *     return new Point(x, y)
+ *   }
+ * }
+ * ```
+ */
+export function jsonCreator(
+	...propertyKeys: PropertyKey[]
+): JsonMethodDecorator {
+	return (target, methodKeyOrContext) => {
+		let data: JsonClassData
+		let methodKey: PropertyKey
+		if (isDecoratorContext(methodKeyOrContext)) {
+			// TC39 standard decorator
+			const context = methodKeyOrContext as ClassMethodDecoratorContext
+			if (context.private || !context.static) {
+				throw new Error(
+					`@jsonCreator decorators are only supported on public static methods, not on '${String(context.name)}'`,
+				)
+			}
+			data = ensureJsonClassData(undefined, context.metadata)
+			methodKey = context.name
+		} else {
+			// legacy decorator (experimentalDecorators); target is the class itself for static methods
+			if (typeof target != 'function') {
+				throw new Error(
+					`@jsonCreator decorators are only supported on static methods, not on '${String(methodKeyOrContext)}'`,
+				)
+			}
+			data = ensureJsonClassData(target)
+			methodKey = methodKeyOrContext
+		}
+		data.creator = {
+			methodKey,
+			parameters: propertyKeys.length ? propertyKeys : undefined,
+		}
 	}
 }
 
-function ensureJsonClassData(ctor: any): JsonClassData {
+/**
+ * Decorator to register a method that is called on a class instance after it was deserialized. At that time, all properties have been set and all circular references have been replaced, so the method can e.g. recompute derived state. Methods of nested instances are called before the methods of the instances containing them; methods of super classes are called before methods of subclasses.
+ * @example
+ * ```typescript
+ * class Order {
+ *   @jsonArrayProperty(() => OrderItem)
+ *   items: OrderItem[] = []
+ *   total = 0
+ *
+ *   @onDeserialized()
+ *   computeTotal() {
+ *     this.total = this.items.reduce((sum, item) => sum + item.price, 0)
+ *   }
+ * }
+ * ```
+ */
+export function onDeserialized(): JsonLifecycleHookDecorator {
+	return createLifecycleHookDecorator('onDeserialized')
+}
+
+/**
+ * Decorator to register a method that is called on a class instance before it is serialized, e.g. to normalize its state. Methods of super classes are called before methods of subclasses.
+ */
+export function onSerializing(): JsonLifecycleHookDecorator {
+	return createLifecycleHookDecorator('onSerializing')
+}
+
+/**
+ * Decorator to register a method that is called on a class instance after it was serialized, with the serialized plain object as argument. The method can modify the serialized object, or return a replacement for it (any value other than undefined). Methods of super classes are called before methods of subclasses.
+ * @example
+ * ```typescript
+ * class User {
+ *   @jsonProperty()
+ *   password = ''
+ *
+ *   @onSerialized()
+ *   removePassword(serialized: any) {
+ *     delete serialized.password
+ *   }
+ * }
+ * ```
+ */
+export function onSerialized(): JsonLifecycleHookDecorator {
+	return createLifecycleHookDecorator('onSerialized')
+}
+
+/**
+ * Gets the class data of a class, both for classes decorated using legacy decorators (`experimentalDecorators`) and TC39 standard decorators (stored in `ctor[Symbol.metadata]`).
+ * @param ctor The constructor of the class.
+ */
+export function getClassData(ctor: any): JsonClassData | undefined {
 	let data = classDataByCtor.get(ctor)
-	if (!data) {
-		data = {}
-		classDataByCtor.set(ctor, data)
+	const metadataSymbol = (Symbol as any).metadata
+	if (
+		!data &&
+		typeof ctor == 'function' &&
+		Object.hasOwn(ctor, metadataSymbol)
+	) {
+		// only consider own metadata, as ctor[Symbol.metadata] would otherwise resolve to the metadata of the super class
+		const metadata = ctor[metadataSymbol]
+		if (metadata && Object.hasOwn(metadata, ClassDataSymbol)) {
+			data = metadata[ClassDataSymbol] as JsonClassData
+			classDataByCtor.set(ctor, data)
+		}
+	}
+	return data
+}
+
+/**
+ * Gets the class data of a class and of all its super classes (super classes first).
+ * @param jsonData The class data of the class.
+ */
+function getClassDataChain(
+	jsonData: JsonClassData | undefined,
+): JsonClassData[] {
+	if (!jsonData) return []
+	const chain = [jsonData]
+	// dive down the whole prototype chain as there could be intermediate classes without any annotated properties
+	for (
+		let superClass = jsonData.ctor
+			? Object.getPrototypeOf(jsonData.ctor)
+			: null;
+		superClass;
+		superClass = Object.getPrototypeOf(superClass)
+	) {
+		const superClassJsonData = getClassData(superClass)
+		if (superClassJsonData) chain.unshift(superClassJsonData)
+	}
+	return chain
+}
+
+/**
+ * Gets all properties of a class including the properties of its super classes (properties of super classes first).
+ * @param jsonData The class data of the class.
+ */
+export function getAllProperties(
+	jsonData: JsonClassData | undefined,
+): Map<PropertyKey, JsonProperty> {
+	const properties = new Map<PropertyKey, JsonProperty>()
+	for (const classData of getClassDataChain(jsonData)) {
+		for (const [key, propData] of classData.properties ?? []) {
+			if (!properties.has(key)) {
+				properties.set(key, propData)
+			}
+		}
+	}
+	return properties
+}
+
+/**
+ * Gets the value of a property of a class instance, including private fields decorated using TC39 standard decorators.
+ * @param obj The class instance.
+ * @param key The property key (e.g. `'#balance'` for a private field).
+ * @param propData The property data of the property, if known.
+ */
+export function getPropertyValue(
+	obj: any,
+	key: PropertyKey,
+	propData = findPropertyData(obj, key),
+): any {
+	return propData?.access ? propData.access.get(obj) : obj[key]
+}
+
+/**
+ * Sets the value of a property of a class instance, including private fields decorated using TC39 standard decorators.
+ * @param obj The class instance.
+ * @param key The property key (e.g. `'#balance'` for a private field).
+ * @param value The value to set.
+ * @param propData The property data of the property, if known.
+ */
+export function setPropertyValue(
+	obj: any,
+	key: PropertyKey,
+	value: any,
+	propData = findPropertyData(obj, key),
+) {
+	if (propData?.access) {
+		propData.access.set(obj, value)
+	} else {
+		Reflect.set(obj, key, value)
+	}
+}
+
+/**
+ * Gets the property data of a private field of a class instance, as private fields cannot be accessed by their key.
+ */
+function findPropertyData(
+	obj: any,
+	key: PropertyKey,
+): JsonProperty | undefined {
+	if (typeof key != 'string' || !key.startsWith('#') || !obj) return undefined
+	for (
+		let ctor = obj.constructor;
+		ctor && ctor !== Function.prototype;
+		ctor = Object.getPrototypeOf(ctor)
+	) {
+		const propData = getClassData(ctor)?.properties?.get(key)
+		if (propData) return propData
+	}
+}
+
+/**
+ * Gets the keys of all methods of a class and its super classes registered for the given lifecycle hook (methods of super classes first).
+ * @param jsonData The class data of the class.
+ * @param hook The lifecycle hook.
+ */
+export function getLifecycleHooks(
+	jsonData: JsonClassData | undefined,
+	hook: LifecycleHook,
+): PropertyKey[] {
+	const methodKeys = new Set<PropertyKey>() // a method overridden and decorated in a subclass is only called once
+	for (const classData of getClassDataChain(jsonData)) {
+		for (const methodKey of classData.hooks?.[hook] ?? []) {
+			methodKeys.add(methodKey)
+		}
+	}
+	return Array.from(methodKeys)
+}
+
+/**
+ * Gets the discriminator property and value for a class declared as subtype in the {@link JsonClassOptions.discriminator | discriminator} of one of its super classes.
+ * @param ctor The class to get the discriminator for.
+ */
+export function getDiscriminatorForSubType(
+	ctor: Ctor,
+): { property: string; value: string; baseCtor: Ctor } | undefined {
+	for (
+		let baseCtor = Object.getPrototypeOf(ctor);
+		baseCtor && baseCtor !== Function.prototype;
+		baseCtor = Object.getPrototypeOf(baseCtor)
+	) {
+		const discriminator = getClassData(baseCtor)?.options?.discriminator
+		if (!discriminator) continue
+		const entry = Object.entries(resolveThunk(discriminator.subTypes)).find(
+			([, subCtor]) => subCtor === ctor,
+		)
+		if (entry) {
+			return { property: discriminator.property, value: entry[0], baseCtor }
+		}
+	}
+}
+
+function isDecoratorContext(value: unknown): value is DecoratorContext {
+	return !!value && typeof value == 'object' && 'kind' in value
+}
+
+function createPropertyDecorator(
+	propertyData: JsonProperty,
+): JsonPropertyDecorator {
+	return (target, propertyKeyOrContext) => {
+		if (isDecoratorContext(propertyKeyOrContext)) {
+			// TC39 standard decorator: the class is not available yet, therefore store the data in the class metadata
+			const context = propertyKeyOrContext as ClassMemberDecoratorContext
+			if (
+				context.static ||
+				(context.private &&
+					context.kind != 'field' &&
+					context.kind != 'accessor')
+			) {
+				throw new Error(
+					`@jsonProperty decorators are not supported on ${context.static ? 'static' : `private ${context.kind}`} member '${String(context.name)}'`,
+				)
+			}
+			const data = ensureJsonClassData(undefined, context.metadata)
+			setPropertyInternal(
+				data,
+				context.name,
+				context.private
+					? {
+							...propertyData,
+							access: context.access as JsonPropertyAccess, // private fields can only be accessed using the functions provided by the decorator context
+						}
+					: propertyData,
+			)
+		} else {
+			// legacy decorator (experimentalDecorators)
+			const data = ensureJsonClassData(target.constructor)
+			setPropertyInternal(data, propertyKeyOrContext, propertyData)
+		}
+	}
+}
+
+function createLifecycleHookDecorator(
+	hook: LifecycleHook,
+): JsonLifecycleHookDecorator {
+	return (target, methodKeyOrContext) => {
+		let data: JsonClassData
+		let methodKey: PropertyKey
+		if (isDecoratorContext(methodKeyOrContext)) {
+			// TC39 standard decorator
+			const context = methodKeyOrContext as ClassMethodDecoratorContext
+			if (context.private || context.static) {
+				throw new Error(
+					`@${hook} decorators are not supported on ${context.private ? 'private' : 'static'} method '${String(context.name)}'`,
+				)
+			}
+			data = ensureJsonClassData(undefined, context.metadata)
+			methodKey = context.name
+		} else {
+			// legacy decorator (experimentalDecorators)
+			data = ensureJsonClassData(target.constructor)
+			methodKey = methodKeyOrContext
+		}
+		if (!data.hooks) data.hooks = {}
+		data.hooks[hook] = (data.hooks[hook] ?? []).concat(methodKey)
+	}
+}
+
+function ensureJsonClassData(
+	ctor: any,
+	metadata?: DecoratorMetadataObject,
+): JsonClassData {
+	let data = ctor ? getClassData(ctor) : undefined
+	if (!data && metadata) {
+		if (!Object.hasOwn(metadata, ClassDataSymbol)) {
+			metadata[ClassDataSymbol] = {} satisfies JsonClassData // own entry, as metadata inherits from the metadata of the super class
+		}
+		data = metadata[ClassDataSymbol] as JsonClassData
 	}
+	if (!data) data = {}
+	if (ctor) classDataByCtor.set(ctor, data)
 	return data
 }
 
 function setPropertyInternal(
-	ctor: object,
+	data: JsonClassData,
 	propertyKey: PropertyKey,
 	propertyData: JsonProperty,
 ) {
-	const data = ensureJsonClassData(ctor)
 	if (!data.properties) data.properties = new Map()
 	data.properties.set(propertyKey, propertyData)
 }
@@ -5,13 +5,55 @@ export {
 	jsonArrayProperty,
 	jsonMapProperty,
 	jsonSetProperty,
+	jsonRecordProperty,
 	jsonAnyProperty,
+	jsonType,
+	jsonUnion,
+	jsonEnum,
+	jsonCreator,
+	onDeserialized,
+	onSerializing,
+	onSerialized,
 	ClassDataSymbol,
+	JsonClassRegistry,
 } from './metadata.ts'
 export { getJsonClassName } from './utils.ts'
+export {
+	JsonClassSerializerError,
+	JsonSerializationError,
+	JsonDeserializationError,
+	JsonClassSerializerAggregateError,
+	formatPath,
+} from './errors.ts'
+export type {
+	JsonClassSerializerErrorCode,
+	JsonClassSerializerErrorDetails,
+} from './errors.ts'
 export type {
 	JsonClassSerializerOptions,
 	JsonClassOptions,
 	JsonPropertyOptions,
+	JsonRecordPropertyOptions,
+	JsonUnionOptions,
+	JsonEnumOptions,
+	JsonClassDecorator,
+	JsonPropertyDecorator,
+	JsonLifecycleHookDecorator,
+	JsonMethodDecorator,
+	PropertyNamingStrategy,
+	MapSerializationStrategy,
+	BinaryEncoding,
+	SpecialValueEncoding,
+	DateFormat,
+	JsonSchema,
+	JsonTypeAdapter,
+	JsonClassRegistryOptions,
+	DuplicateClassNameHandling,
+	DeserializationCallOptions,
+	DeserializationLimits,
+	JsonTypeDescriptor,
+	JsonTypeBuilder,
+	DescribedType,
+	CtorOrDescriptor,
 } from './types.ts'
 export { AnyType } from './types.ts'
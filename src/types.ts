@@ -1,5 +1,6 @@
 // deno-lint-ignore no-unused-vars
 import type { JsonClassSerializer } from './json-class-serializer.ts' // used for JsDoc
+import type { JsonClassRegistry } from './metadata.ts'
 
 const primitiveFactoryFns = [
 	String,
@@ -17,6 +18,7 @@ export type MaybeThunk<T> = T | Thunk<T>
 export type CtorOrThunk =
 	| MaybeThunk<Ctor>
 	| (typeof primitiveFactoryFns)[number]
+export type CtorOrDescriptor = CtorOrThunk | JsonTypeDescriptor
 export type EntryOrKeyValue = [string, any] | { key: string; value: any }
 export type Deserialized<Input, T extends Ctor> =
 	Input extends InstanceType<T>
@@ -27,12 +29,35 @@ export type Deserialized<Input, T extends Ctor> =
 				: InstanceType<T>[]
 			: InstanceType<T>
 
-export type PropertyType = 'class' | 'array' | 'map' | 'set' | 'any'
+export type PropertyType =
+	| 'class'
+	| 'array'
+	| 'map'
+	| 'set'
+	| 'record'
+	| 'tuple'
+	| 'union'
+	| 'enum'
+	| 'any'
 export type PropertyOrMapKey = PropertyKey | [number, number] // tuple for map key/value pairs
 export type KeyOrValue = 'key' | 'value'
+export type MapSerializationStrategy =
+	| 'arrayOfEntries'
+	| 'arrayOfKeyValueObjects'
+	| 'object'
+export type BinaryEncoding = 'base64' | 'base64url' | 'hex'
+export type SpecialValueEncoding = 'json' | 'lossless'
+export type DateFormat = 'iso' | 'epochMilliseconds' | 'epochSeconds' | 'date'
+export type DuplicateClassNameHandling = 'warn' | 'throw' | 'overwrite'
+export type PropertyNamingStrategy =
+	| 'camelCase'
+	| 'snake_case'
+	| 'kebab-case'
+	| 'PascalCase'
+	| ((key: string) => string)
 
 /**
- * Pseudo-type for usage in {@link jsonProperty}, {@link jsonArrayProperty}, {@link jsonMapProperty}, {@link jsonSetProperty} to indicate that the property value / collection value / key can be of any type.
+ * Pseudo-type for usage in {@link jsonProperty}, {@link jsonArrayProperty}, {@link jsonMapProperty}, {@link jsonSetProperty}, {@link jsonRecordProperty} to indicate that the property value / collection value / key can be of any type.
  */
 export const AnyType = Symbol('AnyType') as unknown as Ctor
 
@@ -42,18 +67,226 @@ export const AnyType = Symbol('AnyType') as unknown as Ctor
 export interface JsonPropertyOptions {
 	serializer?: (value: any) => any
 	deserializer?: (value: any) => any
+	/**
+	 * Name of the property in serialized JSON (e.g. `'first_name'` for property `firstName`). Takes precedence over {@link JsonClassSerializerOptions.propertyNamingStrategy | options.propertyNamingStrategy}. Default: the property key
+	 */
+	name?: string
+	/**
+	 * Alternative names which are accepted for the property during deserialization if the property is not found by its name (e.g. names used by older versions of the data). Default: []
+	 */
+	aliases?: string[]
+	/**
+	 * Whether the property must be present in the data to be deserialized. Missing required properties are reported as `JsonClassSerializerError` with code `'MISSING_PROPERTY'`. Default: false
+	 */
+	required?: boolean
+	/**
+	 * Whether the property may be `null` in the data to be deserialized. If false, `null` values are reported as `JsonClassSerializerError` with code `'NULL_NOT_ALLOWED'`. Default: true
+	 */
+	nullable?: boolean
+	/**
+	 * Value assigned to the property during deserialization if it is missing in the data. Functions are treated as factories and called for every deserialized instance; use a factory for objects that must not be shared between instances (e.g. `() => []`). Values equal to the default can be left out during serialization using {@link JsonClassSerializerOptions.omitDefaultValues | options.omitDefaultValues}. Default: undefined (property is left untouched if missing)
+	 */
+	defaultValue?: unknown
+	/**
+	 * Strategy for serializing maps stored in this property (see {@link JsonClassSerializerOptions.mapSerializationStrategy | options.mapSerializationStrategy}), e.g. `'object'` for a single `Map<string, X>` property that should be written as JSON object. Maps in any of the forms are accepted during deserialization. Default: {@link JsonClassSerializerOptions.mapSerializationStrategy | options.mapSerializationStrategy}
+	 */
+	mapSerializationStrategy?: MapSerializationStrategy
+	/**
+	 * Format of `Date` and Temporal values stored in this property, including items of collections (see {@link JsonClassSerializerOptions.dateFormat | options.dateFormat}), e.g. `'date'` for a birthday. Default: {@link JsonClassSerializerOptions.dateFormat | options.dateFormat}
+	 */
+	dateFormat?: DateFormat
+}
+
+/**
+ * Options for configuring how JsonClassSerializer treats the property annotated with `@jsonRecordProperty`.
+ */
+export interface JsonRecordPropertyOptions extends JsonPropertyOptions {
+	/**
+	 * Pattern that all keys of the record must match (e.g. `/^[a-z]{2}$/` for language codes). Keys not matching the pattern are reported as `JsonClassSerializerError` with code `'INVALID_KEY'` during deserialization (and during serialization, if {@link JsonClassSerializerOptions.validateOnSerialization | options.validateOnSerialization} is set). Default: undefined (any key is accepted)
+	 */
+	keyPattern?: RegExp
+}
+
+/**
+ * Conversion of a type that can't be decorated (e.g. a class from a third-party library such as Decimal.js) from and to JSON, registered using {@link JsonClassSerializer.registerAdapter}.
+ * @example
+ * ```typescript
+ * jcs.registerAdapter(Decimal, {
+ *   name: 'Decimal',
+ *   serialize: (value) => value.toString(),
+ *   deserialize: (value) => new Decimal(value),
+ * })
+ * ```
+ */
+export interface JsonTypeAdapter<T = any, S = any> {
+	/**
+	 * Name of the type, written to the `#type` property (see {@link JsonClassSerializerOptions.serializationPropertyName | options.serializationPropertyName}) if the type can't be inferred from the declared type, e.g. within `AnyType` structures. The serialized form is then wrapped as `{"#type": name, "value": serialized}`.
+	 */
+	name: string
+	/**
+	 * Converts a value into its serialized form, which is serialized further. Receives the options of the serializer as second argument.
+	 */
+	serialize: (value: T, options: EffectiveJsonClassSerializerOptions) => S
+	/**
+	 * Creates a value from its serialized form. Receives the options of the serializer as second argument. Errors thrown are reported as `JsonClassSerializerError` with code `'INVALID_TYPE'`.
+	 */
+	deserialize: (value: S, options: EffectiveJsonClassSerializerOptions) => T
+	/**
+	 * Identifies values handled by this adapter during serialization that are not instances of the registered constructor, e.g. instances created by another copy of the library. Default: only instances of the constructor (not of its subclasses) are handled.
+	 */
+	test?: (value: unknown) => boolean
+}
+
+/**
+ * Options of a {@link JsonClassRegistry}.
+ */
+export interface JsonClassRegistryOptions {
+	/**
+	 * Namespace prepended to the names of the classes registered in the registry, separated by a dot (e.g. `'billing'` to register class `User` as `billing.User`). Default: undefined (names are used as they are)
+	 */
+	namespace?: string
+	/**
+	 * What to do if a different class is registered under a name that is already taken:
+	 * - `'overwrite'` (default): Silently replace the registered class, as in previous versions.
+	 * - `'warn'`: Log a warning using `console.warn` and replace the registered class.
+	 * - `'throw'`: Throw a `JsonClassSerializerError` with code `'DUPLICATE_CLASS_NAME'`, i.e. when the class is decorated with `@jsonClass`.
+	 */
+	onDuplicateName?: DuplicateClassNameHandling
 }
 
 /**
  * Options for configuring how JsonClassSerializer treats the class annotated with `@jsonClass`.
  */
 export interface JsonClassOptions {
-	serializer?: (value: any) => any
-	deserializer?: (value: any) => any
+	/**
+	 * Registry to register the class in instead of the global registry (see {@link JsonClassRegistry}). The namespace of the registry is prepended to the name of the class.
+	 */
+	registry?: JsonClassRegistry
+	/**
+	 * Function converting an instance of this class into its serialized form, which is serialized further. Receives the options of the serializer as second argument.
+	 */
+	serializer?: (value: any, options: EffectiveJsonClassSerializerOptions) => any
+	/**
+	 * Function creating an instance of this class from its serialized form. Receives the options of the serializer as second argument.
+	 */
+	deserializer?: (
+		value: any,
+		options: EffectiveJsonClassSerializerOptions,
+	) => any
+	/**
+	 * Declares the subclasses of this class and how to tell them apart by the value of a discriminator property (similar to `@JsonSubTypes` in Jackson). When deserializing a value declared as this class (e.g. `@jsonProperty(() => Shape)`), the subclass is chosen by the discriminator property instead of the `#type` property. When serializing an instance of one of the subclasses, the discriminator property is written and the `#type` property is left out where the declared class is this class.
+	 * @example
+	 * ```typescript
+	 * @jsonClass('Shape', {
+	 *   discriminator: {
+	 *     property: 'kind',
+	 *     subTypes: () => ({ circle: Circle, square: Square }),
+	 *   },
+	 * })
+	 * class Shape {}
+	 * ```
+	 */
+	discriminator?: {
+		/**
+		 * Name of the discriminator property in serialized JSON (e.g. `'kind'`).
+		 */
+		property: string
+		/**
+		 * Subclasses by discriminator value, or an arrow function returning them (needed if the subclasses are defined after this class).
+		 */
+		subTypes: MaybeThunk<Record<string, Ctor>>
+	}
+	/**
+	 * Current version of the serialized shape of this class (integer starting at 1). If set, the version is written to {@link JsonClassSerializerOptions.versionPropertyName | options.versionPropertyName} when serializing, and older serialized objects are upgraded using {@link JsonClassOptions.migrations | migrations} before their properties are deserialized. Serialized objects without version are treated as version 1. Default: undefined (not versioned)
+	 */
+	version?: number
+	/**
+	 * Functions upgrading a serialized object from one version to the next, by the version they upgrade from (e.g. `{ 1: (obj) => ..., 2: (obj) => ... }` for {@link JsonClassOptions.version | version} 3). Each function receives a shallow copy of the raw serialized object (before any properties are deserialized) and returns the upgraded object.
+	 * @example
+	 * ```typescript
+	 * @jsonClass('Person', {
+	 *   version: 2,
+	 *   migrations: {
+	 *     1: ({ name, ...obj }) => ({ ...obj, firstName: name }), // v1 -> v2: rename name to firstName
+	 *   },
+	 * })
+	 * ```
+	 */
+	migrations?: Record<number, (obj: any) => any>
+	/**
+	 * Keys of the properties whose deserialized values are passed to the constructor (in this order) instead of being assigned to the instance after it was created with no arguments. Properties not listed are assigned after the instance was created. Use this for classes with required constructor parameters or validation in the constructor; for static factory methods, use {@link jsonCreator}. Errors thrown by the constructor are reported as `JsonClassSerializerError` with code `'INSTANTIATION_FAILED'`. Default: undefined (instances are created without arguments)
+	 * @example
+	 * ```typescript
+	 * @jsonClass('Money', { constructorParameters: ['amount', 'currency'] })
+	 * class Money {
+	 *   @jsonProperty(Number)
+	 *   readonly amount: number
+	 *   @jsonProperty(String)
+	 *   readonly currency: string
+	 *
+	 *   constructor(amount: number, currency: string) {
+	 *     if (!Number.isFinite(amount)) throw new Error('Invalid amount')
+	 *     this.amount = amount
+	 *     this.currency = currency
+	 *     Object.freeze(this)
+	 *   }
+	 * }
+	 * ```
+	 */
+	constructorParameters?: PropertyKey[]
+	/**
+	 * Function to check whether a serialized value is valid for this class before it is deserialized. Only used if {@link JsonClassSerializerOptions.validateOnDeserialization | options.validateOnDeserialization} is set. Default: any object is accepted for classes without a custom deserializer, any value for classes with a custom deserializer.
+	 */
+	validator?: (
+		value: any,
+		options: EffectiveJsonClassSerializerOptions,
+	) => boolean
+}
+
+/**
+ * Class decorator that can be used both with legacy decorators (`experimentalDecorators`) and TC39 standard decorators.
+ */
+export type JsonClassDecorator = (
+	ctor: any,
+	context?: ClassDecoratorContext,
+) => void
+
+/**
+ * Property decorator that can be used both with legacy decorators (`experimentalDecorators`) and TC39 standard decorators (on fields, `accessor` fields, getters and setters).
+ */
+export type JsonPropertyDecorator = (
+	targetOrValue: any,
+	propertyKeyOrContext: string | symbol | ClassMemberDecoratorContext,
+	descriptor?: PropertyDescriptor,
+) => void
+
+/**
+ * Method decorator that can be used both with legacy decorators (`experimentalDecorators`) and TC39 standard decorators (on instance or static methods).
+ */
+export type JsonMethodDecorator = (
+	targetOrValue: any,
+	methodKeyOrContext: string | symbol | ClassMethodDecoratorContext,
+	descriptor?: PropertyDescriptor,
+) => void
+
+/**
+ * Decorator for lifecycle hook methods (see {@link LifecycleHook}).
+ */
+export type JsonLifecycleHookDecorator = JsonMethodDecorator
+
+export type LifecycleHook = 'onDeserialized' | 'onSerializing' | 'onSerialized'
+
+/**
+ * Functions to access a private field, as provided by the context of TC39 standard decorators.
+ */
+export interface JsonPropertyAccess {
+	get(obj: any): any
+	set(obj: any, value: any): void
 }
 
 export type JsonProperty = {
 	options: JsonPropertyOptions
+	access?: JsonPropertyAccess // only set for private fields
 } & (
 	| {
 			type: 'class'
@@ -61,25 +294,214 @@ export type JsonProperty = {
 	  }
 	| {
 			type: 'array' | 'set'
-			valueCtorOrThunk?: CtorOrThunk
+			valueCtorOrThunk?: CtorOrDescriptor
 	  }
 	| {
 			type: 'map'
-			keyCtorOrThunk?: CtorOrThunk
-			valueCtorOrThunk?: CtorOrThunk
+			keyCtorOrThunk?: CtorOrDescriptor
+			valueCtorOrThunk?: CtorOrDescriptor
+	  }
+	| {
+			type: 'record'
+			options: JsonRecordPropertyOptions
+			valueCtorOrThunk?: CtorOrDescriptor
 	  }
+	| {
+			type: 'tuple'
+			itemCtorsOrThunks: CtorOrDescriptor[]
+	  }
+	| ({
+			type: 'union'
+			memberCtorsOrThunks: CtorOrDescriptor[]
+	  } & JsonUnionOptions)
+	| ({
+			type: 'enum'
+			enumObject: Record<string, string | number>
+	  } & JsonEnumOptions)
 	| {
 			type: 'any'
 	  }
 )
 
+/**
+ * Options for union types created using {@link jsonUnion}.
+ */
+export interface JsonUnionOptions {
+	/**
+	 * Function choosing the member type of a serialized value (e.g. `(value) => (value.iban ? BankTransfer : CreditCard)`). If it returns undefined, the member is chosen as if no discriminator was given: by the `#type` property of the value (see {@link JsonClassSerializerOptions.serializationPropertyName | options.serializationPropertyName}), or else by trying the members in order. Default: undefined
+	 */
+	discriminator?: (value: any) => CtorOrDescriptor | undefined
+}
+
+/**
+ * Options for enum types created using {@link jsonEnum}.
+ */
+export interface JsonEnumOptions<T = any> {
+	/**
+	 * How enum values are written in serialized JSON.
+	 * - `'value'` (default): Write the value of the member (e.g. `1` for `Status.Active = 1`).
+	 * - `'name'`: Write the name of the member (e.g. `"Active"` for `Status.Active = 1`), which is more readable for numeric enums. Values are also accepted during deserialization.
+	 */
+	serializeAs?: 'value' | 'name'
+	/**
+	 * How values not belonging to the enum are treated during deserialization.
+	 * - `'fail'` (default): Report a `JsonClassSerializerError` with code `'INVALID_ENUM_VALUE'`.
+	 * - `'fallback'`: Use {@link JsonEnumOptions.fallbackValue | fallbackValue} instead.
+	 * - `'keep'`: Keep the value as it is (e.g. to tolerate members added by newer versions of the data).
+	 */
+	onUnknownValue?: 'fail' | 'fallback' | 'keep'
+	/**
+	 * Value used for unknown values if {@link JsonEnumOptions.onUnknownValue | onUnknownValue} is `'fallback'`. Default: undefined
+	 */
+	fallbackValue?: T
+}
+
+/**
+ * Symbol marking type descriptors created using {@link jsonType}.
+ */
+export const JsonTypeDescriptorSymbol = Symbol('JsonTypeDescriptor')
+declare const describedType: unique symbol
+
+/**
+ * Description of a (possibly nested) collection or tuple type, created using {@link jsonType} (e.g. `jsonType.array(jsonType.set(Tag))` for `Set<Tag>[]`). `T` is the described type.
+ */
+export type JsonTypeDescriptor<T = any> = JsonProperty & {
+	readonly [JsonTypeDescriptorSymbol]: true
+	readonly [describedType]?: T // only used for type inference
+}
+
+/**
+ * Type described by a constructor, an arrow function returning a constructor or a {@link JsonTypeDescriptor} (e.g. `string` for `String`, `Person` for `() => Person`).
+ */
+export type DescribedType<T> =
+	T extends JsonTypeDescriptor<infer U>
+		? U
+		: T extends StringConstructor
+			? string
+			: T extends NumberConstructor
+				? number
+				: T extends BooleanConstructor
+					? boolean
+					: T extends BigIntConstructor
+						? bigint
+						: T extends Ctor
+							? InstanceType<T>
+							: T extends Thunk<infer C extends Ctor>
+								? InstanceType<C>
+								: any
+
+/**
+ * Builders for type descriptors of nested collections and tuples (type of `jsonType`).
+ */
+export interface JsonTypeBuilder {
+	/**
+	 * Describes an array (e.g. `jsonType.array(Person)` for `Person[]`).
+	 * @param itemType The type of the items.
+	 */
+	array<T extends CtorOrDescriptor>(
+		itemType: T,
+	): JsonTypeDescriptor<DescribedType<T>[]>
+
+	/**
+	 * Describes a set (e.g. `jsonType.set(Tag)` for `Set<Tag>`).
+	 * @param itemType The type of the items.
+	 */
+	set<T extends CtorOrDescriptor>(
+		itemType: T,
+	): JsonTypeDescriptor<Set<DescribedType<T>>>
+
+	/**
+	 * Describes a map (e.g. `jsonType.map(String, Person)` for `Map<string, Person>`).
+	 * @param keyType The type of the keys.
+	 * @param valueType The type of the values.
+	 * @param options Options such as {@link JsonPropertyOptions.mapSerializationStrategy | mapSerializationStrategy}.
+	 */
+	map<K extends CtorOrDescriptor, V extends CtorOrDescriptor>(
+		keyType: K,
+		valueType: V,
+		options?: Pick<JsonPropertyOptions, 'mapSerializationStrategy'>,
+	): JsonTypeDescriptor<Map<DescribedType<K>, DescribedType<V>>>
+
+	/**
+	 * Describes a record serialized as plain object (e.g. `jsonType.record(Person)` for `Record<string, Person>`).
+	 * @param valueType The type of the values.
+	 * @param options Options such as {@link JsonRecordPropertyOptions.keyPattern | keyPattern}.
+	 */
+	record<V extends CtorOrDescriptor>(
+		valueType: V,
+		options?: Pick<JsonRecordPropertyOptions, 'keyPattern'>,
+	): JsonTypeDescriptor<Record<string, DescribedType<V>>>
+
+	/**
+	 * Describes a tuple serialized as array (e.g. `jsonType.tuple(String, Number, Date)` for `[string, number, Date]`).
+	 * @param itemTypes The types of the items by position.
+	 */
+	tuple<T extends CtorOrDescriptor[]>(
+		...itemTypes: T
+	): JsonTypeDescriptor<{ [K in keyof T]: DescribedType<T[K]> }>
+}
+
+export function isTypeDescriptor(value: unknown): value is JsonTypeDescriptor {
+	return (
+		!!value && typeof value == 'object' && JsonTypeDescriptorSymbol in value
+	)
+}
+
+/**
+ * JSON Schema (draft 2020-12) as generated by {@link JsonClassSerializer.toJsonSchema}.
+ */
+export type JsonSchema = { [keyword: string]: any }
+
 export interface JsonClassData {
 	ctor?: any
 	name?: string
 	options?: JsonClassOptions
+	adapter?: { ctor: Ctor; test?: (value: unknown) => boolean } // set for types registered using JsonClassSerializer.registerAdapter and for built-in types handled the same way (Error)
 	properties?: Map<PropertyKey, JsonProperty>
+	hooks?: Partial<Record<LifecycleHook, PropertyKey[]>> // keys of the methods to call
+	creator?: { methodKey: PropertyKey; parameters?: PropertyKey[] } // static method annotated with @jsonCreator
+}
+
+/**
+ * Limits on the size of the input to be deserialized (see {@link JsonClassSerializerOptions.deserializationLimits}). Limits that are not set are not checked.
+ */
+export interface DeserializationLimits {
+	/**
+	 * Maximum length of the JSON string passed to {@link JsonClassSerializer.deserializeFromJson}, checked before it is parsed. The other limits are checked after parsing, so this is the only limit that bounds the work done by `JSON.parse`.
+	 */
+	maxJsonLength?: number
+
+	/**
+	 * Maximum nesting depth of objects and arrays, the root object or array having depth 1.
+	 */
+	maxDepth?: number
+
+	/**
+	 * Maximum number of items of an array (including arrays representing sets and maps).
+	 */
+	maxArrayLength?: number
+
+	/**
+	 * Maximum number of entries of a map, in any of the forms of {@link MapSerializationStrategy}.
+	 */
+	maxMapSize?: number
+
+	/**
+	 * Maximum length of a string value or object key.
+	 */
+	maxStringLength?: number
+
+	/**
+	 * Maximum total number of values (objects, arrays and primitive values) in the input.
+	 */
+	maxNodes?: number
 }
 
+/**
+ * Options that can be passed to a single call of {@link JsonClassSerializer.deserializeFromJson} or {@link JsonClassSerializer.deserializeFromObject}, overriding the options of the serializer for that call only.
+ */
+export type DeserializationCallOptions = Partial<JsonClassSerializerOptions>
+
 /**
  * Options for configuring the JSON class serializer.
  */
@@ -89,6 +511,11 @@ export interface JsonClassSerializerOptions {
 	 */
 	serializationPropertyName: string
 
+	/**
+	 * Property to write the {@link JsonClassOptions.version | version} of versioned classes to in serialized JSON (e.g. `'#version'` to produce `'{"#type":"Person","#version":2,...}'`). Default: '#version'
+	 */
+	versionPropertyName: string
+
 	/**
 	 * Function to resolve the class (or its name) for serialization. Only used if the class to be used for serialization is not known from the context or the ctor (constructor) input property of {@link JsonClassSerializer.deserializeFromJson} / {@link JsonClassSerializer.deserializeFromObject}. Default: undefined
 	 * @param obj - The object being serialized.
@@ -121,6 +548,26 @@ export interface JsonClassSerializerOptions {
 	 */
 	useGlobalClassRegistry: boolean
 
+	/**
+	 * Registry to resolve class names in instead of the global class registry, to isolate the classes of e.g. a bounded context (see {@link JsonClassRegistry}). If set, {@link JsonClassSerializerOptions.useGlobalClassRegistry | useGlobalClassRegistry} is ignored. Default: undefined
+	 */
+	classRegistry: JsonClassRegistry | undefined
+
+	/**
+	 * Classes that may be instantiated from types found in the input to be deserialized, i.e. resolved from the `#type` property (see {@link JsonClassSerializerOptions.deserializationClassResolver | deserializationClassResolver}), a discriminator property or the name of a type adapter. Other types are rejected with a `JsonClassSerializerError` with code `'TYPE_NOT_ALLOWED'`. Types declared in property decorators and the type passed to `deserializeFromJson` / `deserializeFromObject` are not restricted. Independently of this option, a type found in the input must always be the declared type of the value or one of its subclasses. Default: undefined (all types are allowed)
+	 */
+	allowedTypes: Ctor[] | undefined
+
+	/**
+	 * Classes (and their subclasses) that must not be instantiated from types found in the input to be deserialized (see {@link JsonClassSerializerOptions.allowedTypes | allowedTypes}). Default: undefined
+	 */
+	deniedTypes: Ctor[] | undefined
+
+	/**
+	 * Limits on the size of the input to be deserialized, e.g. `{ maxJsonLength: 1_000_000, maxDepth: 32 }`. The input is checked before deserialization starts (the length of JSON strings before parsing, the other limits after parsing), and the first violation is thrown as `JsonClassSerializerError` with code `'LIMIT_EXCEEDED'` and the path of the offending value, even if {@link JsonClassSerializerOptions.collectAllErrors | collectAllErrors} is set. Default: {} (no limits)
+	 */
+	deserializationLimits: DeserializationLimits
+
 	/**
 	 * Additional classes to consider when looking up a type by name (Record with class names as keys and constructor functions as values). This is evaluated before the global class registry. Default: {}
 	 */
@@ -142,11 +589,84 @@ export interface JsonClassSerializerOptions {
 	failIfPlainObjectsFound: boolean
 
 	/**
-	 * Strategy for serializing maps.
+	 * Whether to fail if the key `__proto__`, which would replace the prototype of the deserialized object, is found in plain objects or records during deserialization. This key is always left out of deserialized objects; if this option is set, it is additionally reported as `JsonClassSerializerError` with code `'FORBIDDEN_KEY'`. Default: false
+	 */
+	failIfForbiddenKeysFound: boolean
+
+	/**
+	 * Whether to check during deserialization that every value matches the type declared in its property decorator (e.g. a string for `@jsonProperty(String)`, a valid date for `@jsonProperty(Date)`, an array for `@jsonArrayProperty(...)`). Values not matching their declared type are reported as `JsonClassSerializerError` with code `'INVALID_TYPE'`. Values of `AnyType` properties and properties without declared type are not checked. Default: false
+	 */
+	validateOnDeserialization: boolean
+
+	/**
+	 * Whether to check during serialization that every property value matches the type declared in its property decorator (e.g. an `Address` or subclass instance for `@jsonProperty(() => Address)`, a `Set` for `@jsonSetProperty(...)`). Values of `AnyType` properties and properties without declared type are not checked.
+	 * - `'off'` (default): Do not check.
+	 * - `'warn'`: Log a warning using `console.warn` and continue.
+	 * - `'throw'`: Throw a `JsonClassSerializerError` with code `'INVALID_TYPE'`.
+	 */
+	validateOnSerialization: 'off' | 'warn' | 'throw'
+
+	/**
+	 * Whether to leave out properties during serialization whose value is equal to their {@link JsonPropertyOptions.defaultValue | defaultValue}. Default: false
+	 */
+	omitDefaultValues: boolean
+
+	/**
+	 * Strategy to derive the names of properties in serialized JSON from the property keys of classes. Properties with an explicit {@link JsonPropertyOptions.name | name} are not affected.
+	 * - `undefined` (default): Use the property keys as they are.
+	 * - `'camelCase'`, `'snake_case'`, `'kebab-case'`, `'PascalCase'`: Convert the property keys to the given case (e.g. `accountBalance` to `account_balance` for `'snake_case'`).
+	 * - function: Custom conversion of a property key to the name in serialized JSON.
+	 */
+	propertyNamingStrategy: PropertyNamingStrategy | undefined
+
+	/**
+	 * Whether to continue deserialization after an error and report all errors together. If true, a `JsonClassSerializerAggregateError` containing all encountered errors is thrown at the end of deserialization. If false, deserialization stops at the first error. Default: false
+	 */
+	collectAllErrors: boolean
+
+	/**
+	 * Strategy for serializing maps. Can be overridden per property using {@link JsonPropertyOptions.mapSerializationStrategy}. Maps in any of the forms are accepted during deserialization.
 	 * - `'arrayOfEntries'` (default): Serialize maps as an array of entries ([["key1","value1"],["key2","value2"]]).
 	 * - `'arrayOfKeyValueObjects'`: Serialize maps as an array of key-value objects ([{"key":"key1"},{"value":"value1"},{"key":"key2"},{"value":"value2"}]).
+	 * - `'object'`: Serialize maps as an object ({"key1":"value1","key2":"value2"}). Only possible if all keys are serialized as strings or finite numbers (e.g. keys of type string, number, BigInt, Date or enum) that are unique when converted to strings; otherwise {@link JsonClassSerializerOptions.mapSerializationFallbackStrategy | options.mapSerializationFallbackStrategy} applies. Keys are converted back to numbers during deserialization if the declared key type is `Number` or a numeric enum.
 	 */
-	mapSerializationStrategy: 'arrayOfEntries' | 'arrayOfKeyValueObjects'
+	mapSerializationStrategy: MapSerializationStrategy
+
+	/**
+	 * What to do if a map cannot be serialized as object using the {@link JsonClassSerializerOptions.mapSerializationStrategy | mapSerializationStrategy} `'object'` because of its keys.
+	 * - `'fail'` (default): Throw a `JsonClassSerializerError` with code `'INVALID_KEY'`.
+	 * - `'arrayOfEntries'`, `'arrayOfKeyValueObjects'`: Serialize the map using this strategy instead.
+	 */
+	mapSerializationFallbackStrategy:
+		| 'fail'
+		| 'arrayOfEntries'
+		| 'arrayOfKeyValueObjects'
+
+	/**
+	 * Encoding of binary data (`ArrayBuffer`, `DataView`, typed arrays such as `Uint8Array` or `Float64Array`, and Node.js `Buffer`) in serialized JSON. Typed arrays and DataViews are serialized as the bytes they view (in platform byte order, little-endian on all common platforms).
+	 * - `'base64'` (default): Standard base64 with padding (RFC 4648, section 4).
+	 * - `'base64url'`: URL-safe base64 without padding (RFC 4648, section 5).
+	 * - `'hex'`: Lowercase hexadecimal digits, two per byte.
+	 */
+	binaryEncoding: BinaryEncoding
+
+	/**
+	 * Encoding of values that JSON can't represent: NaN, Infinity, -Infinity, -0 and `undefined` items of collections.
+	 * - `'json'` (default): Same as `JSON.stringify` (NaN and ±Infinity become null, -0 becomes 0, `undefined` items of arrays and sets become null).
+	 * - `'lossless'`: Special numbers are serialized as the strings `"NaN"`, `"Infinity"`, `"-Infinity"` and `"-0"` and converted back during deserialization where the declared type is `Number`. `undefined` items of arrays, sets and maps are serialized as `{"#type":"undefined"}` (using {@link JsonClassSerializerOptions.serializationPropertyName | serializationPropertyName}) and restored as `undefined`.
+	 */
+	specialValueEncoding: SpecialValueEncoding
+
+	/**
+	 * Format of `Date` values and Temporal types representing a date or point in time (`Instant`, `ZonedDateTime`, `PlainDateTime`, `PlainDate`) in serialized JSON. Can be overridden per property using {@link JsonPropertyOptions.dateFormat}. Other Temporal types (e.g. `PlainTime`, `Duration`) are always serialized as ISO 8601 strings. Values that can't be parsed are rejected during deserialization with a `JsonClassSerializerError` with code `'INVALID_TYPE'`.
+	 * - `'iso'` (default): ISO 8601 string (e.g. `"2000-01-02T12:34:56.000Z"`), as produced by `toJSON`.
+	 * - `'epochMilliseconds'`: Milliseconds since 1970-01-01T00:00:00Z.
+	 * - `'epochSeconds'`: Whole seconds since 1970-01-01T00:00:00Z (milliseconds are truncated).
+	 * - `'date'`: Date-only string in UTC (e.g. `"2000-01-02"`), or in the time zone of a `ZonedDateTime`. The time of day is lost.
+	 *
+	 * Values without time zone (`PlainDateTime`, `PlainDate`) are interpreted as UTC for the epoch formats. During deserialization, ISO strings are accepted in addition to the configured format.
+	 */
+	dateFormat: DateFormat
 
 	/**
 	 * Whether to pretty-print the serialized JSON.
@@ -228,11 +748,18 @@ export function propertyHasKeyCtor(
 
 export function propertyHasValueCtor(
 	property: JsonProperty,
-): property is JsonProperty & { type: 'class' | 'array' | 'set' | 'map' } {
+): property is JsonProperty & {
+	type: 'class' | 'array' | 'set' | 'map' | 'record'
+} {
 	return (
 		property.type == 'class' ||
 		property.type == 'array' ||
 		property.type == 'set' ||
-		property.type == 'map'
+		property.type == 'map' ||
+		property.type == 'record'
 	)
 }
+
+export function resolveDefaultValue(defaultValue: unknown): unknown {
+	return typeof defaultValue == 'function' ? defaultValue() : defaultValue
+}
@@ -1,5 +1,15 @@
-import { classDataByCtor } from './metadata.ts'
-import type { PropertyOrMapKey } from './types.ts'
+import { getClassData, getPropertyValue, setPropertyValue } from './metadata.ts'
+import type {
+	EffectiveJsonClassSerializerOptions,
+	JsonProperty,
+	PropertyNamingStrategy,
+	PropertyOrMapKey,
+} from './types.ts'
+import {
+	describeValueType,
+	JsonClassSerializerError,
+	JsonDeserializationError,
+} from './errors.ts'
 
 export const DeleteSymbol = Symbol('Delete')
 
@@ -12,7 +22,24 @@ export function getJsonClassName(ctorOrInstance: any): string {
 		typeof ctorOrInstance === 'function'
 			? ctorOrInstance
 			: ctorOrInstance.constructor
-	return classDataByCtor.get(ctor)?.name || ctor.name
+	return getClassData(ctor)?.name || ctor.name
+}
+
+/**
+ * Checks whether a key found in the input must not be copied to deserialized objects because assigning it would replace the prototype of the object (prototype pollution). Other keys such as `constructor` are ordinary data keys when assigned.
+ */
+export function isForbiddenKey(key: PropertyKey): boolean {
+	return key === '__proto__'
+}
+
+/**
+ * Checks whether following a key of a reference path would leave the data and reach a prototype or constructor.
+ */
+function leadsOutOfData(obj: any, key: PropertyKey): boolean {
+	return (
+		isForbiddenKey(key) ||
+		((key === 'constructor' || key === 'prototype') && !Object.hasOwn(obj, key))
+	)
 }
 
 export function getInObjectFromPath(obj: any, path: PropertyOrMapKey[]) {
@@ -20,21 +47,38 @@ export function getInObjectFromPath(obj: any, path: PropertyOrMapKey[]) {
 	const processedKeys: PropertyOrMapKey[] = []
 	for (const key of path) {
 		processedKeys.push(key)
+		if (!Array.isArray(key) && leadsOutOfData(current, key)) {
+			throw new JsonDeserializationError(
+				`Failed to deserialize reference from path ${JSON.stringify(path)} at position ${JSON.stringify(processedKeys)}: forbidden key`,
+				{ code: 'INVALID_REFERENCE', path: processedKeys },
+			)
+		}
 		if (Array.isArray(key)) {
 			if (!(current instanceof Map)) {
-				throw new Error(
-					`Failed to deserialize reference from path ${JSON.stringify(path)} at position ${JSON.stringify(processedKeys)}: expected Map, got ${current}`,
+				throw new JsonDeserializationError(
+					`Failed to deserialize reference from path ${JSON.stringify(path)} at position ${JSON.stringify(processedKeys)}: expected Map`,
+					{
+						code: 'INVALID_REFERENCE',
+						path: processedKeys,
+						expectedType: 'Map',
+						actualType: describeValueType(current),
+					},
 				)
 			}
 			current = [...current.entries()][key[0]][key[1]]
 		} else if (current instanceof Set) {
 			current = [...current][key as number]
 		} else {
-			current = current[key]
+			current = getPropertyValue(current, key)
 		}
 		if (!current) {
-			throw new Error(
+			throw new JsonDeserializationError(
 				`Failed to deserialize reference from path ${JSON.stringify(path)} at position ${JSON.stringify(processedKeys)}`,
+				{
+					code: 'INVALID_REFERENCE',
+					path: processedKeys,
+					actualType: describeValueType(current),
+				},
 			)
 		}
 	}
@@ -50,8 +94,14 @@ export function setInObjectFromPath(
 	const property = path.at(-1)!
 	if (Array.isArray(property)) {
 		if (!(parent instanceof Map))
-			throw new Error(
-				`Failed to set reference at path ${JSON.stringify(path)}: expected Map, got ${parent}`,
+			throw new JsonDeserializationError(
+				`Failed to set reference at path ${JSON.stringify(path)}: expected Map`,
+				{
+					code: 'INVALID_REFERENCE',
+					path,
+					expectedType: 'Map',
+					actualType: describeValueType(parent),
+				},
 			)
 		const [idx, keyOrValueIdx] = property as [number, number]
 		const entries = [...parent.entries()]
@@ -73,43 +123,95 @@ export function setInObjectFromPath(
 			if (value === DeleteSymbol) {
 				Reflect.deleteProperty(parent, property)
 			} else {
-				Reflect.set(parent, property, value)
+				setPropertyValue(parent, property, value)
 			}
 		}
 	}
 }
 
-// conversion of buffers to base64
-// TODO: replace with native implementation when TC39 proposal https://github.com/tc39/proposal-arraybuffer-base64 is widely available
-export function dataViewToBase64(view: DataView): string {
-	return arrayBufferToBase64(view.buffer)
+/**
+ * Gets the name under which a property is written to the serialized output: the explicit {@link JsonPropertyOptions.name | name} of the property if set, otherwise the result of {@link JsonClassSerializerOptions.propertyNamingStrategy | options.propertyNamingStrategy}. Private fields are written without their leading `#`.
+ */
+export function getSerializedPropertyName(
+	key: PropertyKey,
+	propData: JsonProperty,
+	options: EffectiveJsonClassSerializerOptions,
+): PropertyKey {
+	if (propData.options.name !== undefined) return propData.options.name
+	if (propData.access && typeof key == 'string') key = key.replace(/^#/, '')
+	if (typeof key != 'string' || !options.propertyNamingStrategy) return key
+	return applyNamingStrategy(key, options.propertyNamingStrategy)
 }
 
-export function arrayBufferToBase64(buffer: ArrayBufferLike): string {
-	return uint8ArrayToBase64(new Uint8Array(buffer))
-}
+/**
+ * Converts a property key according to a naming strategy, e.g. `accountBalance` to `account_balance` for `'snake_case'`. Leading non-alphanumeric characters (e.g. `_` of `_id`) are preserved.
+ * @param key The property key to convert.
+ * @param strategy The naming strategy.
+ */
+export function applyNamingStrategy(
+	key: string,
+	strategy: PropertyNamingStrategy,
+): string {
+	if (typeof strategy == 'function') return strategy(key)
 
-export function uint8ArrayToBase64(array: Uint8Array): string {
-	const uint16Array = Uint16Array.from(array)
-	const binaryStr = new TextDecoder('utf-16').decode(uint16Array)
-	const base64 = btoa(binaryStr)
-	return base64
+	const [, prefix, rest] = key.match(/^([^A-Za-z0-9]*)(.*)$/s)!
+	const words = rest
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+		.split(/[\s_-]+/)
+		.filter(Boolean)
+		.map((word) => word.toLowerCase())
+	const capitalize = (word: string) =>
+		word.charAt(0).toUpperCase() + word.slice(1)
+	switch (strategy) {
+		case 'camelCase':
+			return (
+				prefix +
+				words.map((word, idx) => (idx ? capitalize(word) : word)).join('')
+			)
+		case 'PascalCase':
+			return prefix + words.map(capitalize).join('')
+		case 'snake_case':
+			return prefix + words.join('_')
+		case 'kebab-case':
+			return prefix + words.join('-')
+		default:
+			throw new JsonClassSerializerError(
+				`Unknown property naming strategy: ${strategy}`,
+				{ code: 'INVALID_OPTION' },
+			)
+	}
 }
 
-// conversion of base64 to buffers
-export function base64ToDataView(base64: string | DataView): DataView {
-	if (base64 instanceof DataView) return base64
-	return new DataView(base64ToArrayBuffer(base64))
+/**
+ * Checks whether calling the given function succeeds without throwing.
+ */
+export function succeeds(fn: () => unknown): boolean {
+	try {
+		fn()
+		return true
+	} catch {
+		return false
+	}
 }
 
-export function base64ToArrayBuffer(base64: string | ArrayBuffer): ArrayBuffer {
-	if (base64 instanceof ArrayBuffer) return base64
-	return base64ToUint8Array(base64).buffer as ArrayBuffer
+/**
+ * Checks whether the given value is a plain object (created by an object literal, `JSON.parse` or `Object.create(null)`).
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+	if (!value || typeof value != 'object') return false
+	const proto = Object.getPrototypeOf(value)
+	return proto === Object.prototype || proto === null
 }
 
-export function base64ToUint8Array(base64: string | Uint8Array): Uint8Array {
-	if (base64 instanceof Uint8Array) return base64
-	const binaryStr = atob(base64)
-	const array = Uint8Array.from(binaryStr, (char) => char.charCodeAt(0))
-	return array
+/**
+ * Gets the members of a TypeScript enum as `[name, value]` pairs, leaving out the reverse mappings generated for numeric members.
+ */
+export function getEnumMembers(
+	enumObject: Record<string, string | number>,
+): [string, string | number][] {
+	return Object.entries(enumObject).filter(
+		([key, value]) =>
+			!(typeof value == 'string' && enumObject[value] === Number(key)),
+	)
 }
@@ -3,21 +3,37 @@ import {
 	assertStrictEquals,
 	assertNotStrictEquals,
 	assertThrows,
-  assertEquals,
+	assertEquals,
 } from '@std/assert'
 import {
 	classDataByCtor,
 	ClassDataSymbol,
+	jsonAnyProperty,
 	jsonArrayProperty,
 	jsonClass,
+	jsonEnum,
+	jsonCreator,
+	JsonClassRegistry,
 	jsonMapProperty,
 	jsonProperty,
+	jsonRecordProperty,
 	jsonSetProperty,
+	jsonType,
+	jsonUnion,
+	onDeserialized,
+	onSerialized,
+	onSerializing,
 } from '../src/metadata.ts'
 import { JsonClassSerializer } from '../src/json-class-serializer.ts'
 import { assertSimilarInstances } from './test-util.ts'
 import { getJsonClassName } from '../src/utils.ts'
 import { AnyType } from '../src/types.ts'
+import {
+	JsonClassSerializerAggregateError,
+	JsonClassSerializerError,
+	JsonDeserializationError,
+	JsonSerializationError,
+} from '../src/errors.ts'
 
 @jsonClass()
 class Address {
@@ -84,7 +100,7 @@ class Person {
 	@jsonSetProperty(() => String)
 	nicknames: Set<string> = new Set()
 
-	@jsonMapProperty(String, Person)
+	@jsonMapProperty(String, () => Person)
 	children: Map<string, Person> = new Map()
 
 	@jsonArrayProperty(() => Account, {
@@ -737,9 +753,9 @@ Deno.test(function serializeCircularDependenciesWithoutCorrectOption() {
 
 Deno.test(function serializeCircularDependencies() {
 	class Person {
-		@jsonProperty(Person)
+		@jsonProperty(() => Person)
 		parent?: Person
-		@jsonArrayProperty(Person)
+		@jsonArrayProperty(() => Person)
 		children: Person[] = []
 
 		constructor(init?: Partial<Person>) {
@@ -762,9 +778,9 @@ Deno.test(function serializeCircularDependencies() {
 Deno.test(function doubleSserializeCircularDependencies() {
 	// Ensure that serializing the object twice does not produce unexpected results such as {#ref:{#ref:[...]}}
 	class Person {
-		@jsonProperty(Person)
+		@jsonProperty(() => Person)
 		parent?: Person
-		@jsonArrayProperty(Person)
+		@jsonArrayProperty(() => Person)
 		children: Person[] = []
 
 		constructor(init?: Partial<Person>) {
@@ -791,11 +807,11 @@ Deno.test(function doubleSserializeCircularDependencies() {
 
 Deno.test(function serializeCircularDependenciesInCollections() {
 	class Foo {
-		@jsonArrayProperty(Foo)
+		@jsonArrayProperty(() => Foo)
 		arr: Foo[] = []
-		@jsonMapProperty(Foo, Foo)
+		@jsonMapProperty(() => Foo, () => Foo)
 		map: Map<Foo, Foo> = new Map()
-		@jsonSetProperty(Foo)
+		@jsonSetProperty(() => Foo)
 		set: Set<Foo> = new Set()
 	}
 
@@ -915,3 +931,1914 @@ Deno.test(function serializeTemporalTypes() {
 	const deserialized = jcs.deserializeFromJson(json, DatesAndTimes)
 	assertSimilarInstances(deserialized, datesAndTimes)
 })
+
+Deno.test(function deserializationErrorsContainPathAndTypes() {
+	@jsonClass('Order_deserializationErrorsContainPathAndTypes')
+	class Order {
+		@jsonArrayProperty(Address)
+		addresses: Address[] = []
+	}
+
+	const jcs = new JsonClassSerializer({ failIfPlainObjectsFound: true })
+	const json =
+		'{"addresses":[{"city":"Zurich"},{"#type":"Unknown","city":"Bern"}]}'
+	const error = assertThrows(
+		() => jcs.deserializeFromJson(json, Order),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assert(error instanceof JsonClassSerializerError)
+	assertStrictEquals(error.code, 'TYPE_RESOLUTION_FAILED')
+	assertEquals(error.path, ['addresses', 1])
+	assertStrictEquals(error.pathString, '$.addresses[1]')
+	assertStrictEquals(error.expectedType, 'Unknown')
+	assertStrictEquals(error.actualType, 'object')
+	assert(!error.message.includes('Bern'))
+
+	const plainObjectError = assertThrows(
+		() => jcs.deserializeFromJson('{"nested":{"a":1}}'),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(plainObjectError.code, 'PLAIN_OBJECT_FOUND')
+	assertEquals(plainObjectError.path, [])
+})
+
+Deno.test(function deserializationCollectsAllErrors() {
+	@jsonClass('Order_deserializationCollectsAllErrors')
+	class Order {
+		@jsonProperty(Address)
+		billingAddress?: Address
+		@jsonMapProperty(String, Address)
+		shippingAddresses = new Map<string, Address>()
+	}
+
+	const json = JSON.stringify({
+		billingAddress: { '#type': 'Unknown' },
+		shippingAddresses: [
+			['home', { city: 'Zurich' }],
+			['work', { '#type': 'AlsoUnknown' }],
+		],
+	})
+	const failFast = new JsonClassSerializer()
+	const firstError = assertThrows(
+		() => failFast.deserializeFromJson(json, Order),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertEquals(firstError.path, ['billingAddress'])
+
+	const collecting = new JsonClassSerializer({ collectAllErrors: true })
+	const aggregateError = assertThrows(
+		() => collecting.deserializeFromJson(json, Order),
+		JsonClassSerializerAggregateError,
+	) as JsonClassSerializerAggregateError
+	assertStrictEquals(aggregateError.code, 'MULTIPLE_ERRORS')
+	assertEquals(
+		aggregateError.errors.map((error) => [error.pathString, error.code]),
+		[
+			['$.billingAddress', 'TYPE_RESOLUTION_FAILED'],
+			['$.shippingAddresses[1][1]', 'TYPE_RESOLUTION_FAILED'],
+		],
+	)
+
+	const valid = collecting.deserializeFromJson(
+		'{"billingAddress":{"city":"Bern"}}',
+		Order,
+	)
+	assertSimilarInstances(valid.billingAddress, new Address({ city: 'Bern' }))
+})
+
+Deno.test(function serializationErrorsContainPath() {
+	class Foo {
+		@jsonProperty()
+		obj: object = {}
+	}
+
+	const jcs = new JsonClassSerializer()
+	const error = assertThrows(
+		() => jcs.serializeToJson({ foos: [new Foo()] }),
+		JsonSerializationError,
+	) as JsonSerializationError
+	assertStrictEquals(error.code, 'UNKNOWN_PROPERTY_CLASS')
+	assertStrictEquals(error.pathString, '$.foos[0].obj')
+	assertStrictEquals(error.actualType, 'object')
+})
+
+Deno.test(function validateOnDeserialization() {
+	@jsonClass('Person_validateOnDeserialization')
+	class Person {
+		@jsonProperty(String)
+		name: string = ''
+		@jsonProperty(Date)
+		dob?: Date
+		@jsonProperty(BigInt)
+		balance?: bigint
+		@jsonProperty(Address)
+		address?: Address
+		@jsonArrayProperty(Number)
+		scores: number[] = []
+		@jsonMapProperty(String, Boolean)
+		flags = new Map<string, boolean>()
+		@jsonProperty(AnyType)
+		extra: any
+	}
+
+	const validJson = JSON.stringify({
+		name: 'John',
+		dob: '2000-01-01T00:00:00.000Z',
+		balance: '123',
+		address: { city: 'Zurich' },
+		scores: [1, 2],
+		flags: [['a', true]],
+		extra: { anything: [1, 'a'] },
+	})
+	const lenient = new JsonClassSerializer()
+	const strict = new JsonClassSerializer({ validateOnDeserialization: true })
+	assertSimilarInstances(
+		strict.deserializeFromJson(validJson, Person),
+		lenient.deserializeFromJson(validJson, Person),
+	)
+
+	const expectInvalid = (
+		json: string,
+		pathString: string,
+		expectedType: string,
+		actualType: string,
+	) => {
+		const error = assertThrows(
+			() => strict.deserializeFromJson(json, Person),
+			JsonDeserializationError,
+		) as JsonDeserializationError
+		assertStrictEquals(error.code, 'INVALID_TYPE')
+		assertStrictEquals(error.pathString, pathString)
+		assertStrictEquals(error.expectedType, expectedType)
+		assertStrictEquals(error.actualType, actualType)
+	}
+	expectInvalid('{"name":42}', '$.name', 'String', 'number')
+	expectInvalid('{"dob":"garbage"}', '$.dob', 'Date', 'string')
+	expectInvalid('{"balance":"1.5"}', '$.balance', 'BigInt', 'string')
+	expectInvalid('{"address":"Zurich"}', '$.address', 'Address', 'string')
+	expectInvalid('{"scores":{"a":1}}', '$.scores', 'Array', 'object')
+	expectInvalid('{"scores":[1,"2"]}', '$.scores[1]', 'Number', 'string')
+	expectInvalid('{"flags":[["a"]]}', '$.flags', 'Map', 'array')
+	expectInvalid('{"flags":[["a",1]]}', '$.flags[0][1]', 'Boolean', 'number')
+
+	const collecting = new JsonClassSerializer({
+		validateOnDeserialization: true,
+		collectAllErrors: true,
+	})
+	const aggregateError = assertThrows(
+		() =>
+			collecting.deserializeFromJson(
+				'{"name":1,"dob":"x","scores":[1,"2",3,"4"]}',
+				Person,
+			),
+		JsonClassSerializerAggregateError,
+	) as JsonClassSerializerAggregateError
+	assertEquals(
+		aggregateError.errors.map((error) => error.pathString),
+		['$.name', '$.dob', '$.scores[1]', '$.scores[3]'],
+	)
+})
+
+Deno.test(function validateOnSerialization() {
+	@jsonClass('Person_validateOnSerialization')
+	class Person {
+		@jsonProperty(() => Address)
+		address?: Address
+		@jsonArrayProperty(String)
+		nicknames: any = []
+		@jsonMapProperty(String, () => Address)
+		addresses = new Map<string, any>()
+	}
+	@jsonClass('SpecialAddress_validateOnSerialization')
+	class SpecialAddress extends Address {}
+
+	const valid = new Person()
+	valid.address = new SpecialAddress({ city: 'Zurich' }) // subclasses are allowed
+	valid.nicknames = ['Johnny']
+	valid.addresses.set('home', new Address({ city: 'Bern' }))
+
+	const throwing = new JsonClassSerializer({ validateOnSerialization: 'throw' })
+	assertStrictEquals(
+		throwing.serializeToJson(valid),
+		new JsonClassSerializer().serializeToJson(valid),
+	)
+
+	const expectInvalid = (
+		person: Person,
+		pathString: string,
+		expectedType: string,
+	) => {
+		new JsonClassSerializer().serializeToJson(person) // not checked by default
+		const error = assertThrows(
+			() => throwing.serializeToJson(person),
+			JsonSerializationError,
+		) as JsonSerializationError
+		assertStrictEquals(error.code, 'INVALID_TYPE')
+		assertStrictEquals(error.pathString, pathString)
+		assertStrictEquals(error.expectedType, expectedType)
+	}
+	const withWrongClass = new Person()
+	withWrongClass.address = new Nationality({ country: 'CH' }) as any
+	expectInvalid(withWrongClass, '$.address', 'Address')
+
+	const withSetInArray = new Person()
+	withSetInArray.nicknames = new Set(['Johnny'])
+	expectInvalid(withSetInArray, '$.nicknames', 'Array')
+
+	const withWrongItem = new Person()
+	withWrongItem.nicknames = ['Johnny', 42]
+	expectInvalid(withWrongItem, '$.nicknames[1]', 'String')
+
+	const withWrongMapValue = new Person()
+	withWrongMapValue.addresses.set('home', 'Zurich')
+	expectInvalid(withWrongMapValue, '$.addresses[0][1]', 'Address')
+
+	const warnings: any[] = []
+	const originalWarn = console.warn
+	console.warn = (...args: any[]) => warnings.push(args)
+	try {
+		const json = new JsonClassSerializer({
+			validateOnSerialization: 'warn',
+		}).serializeToJson(withWrongClass)
+		assertStrictEquals(
+			json,
+			'{"#type":"Person_validateOnSerialization","address":{"#type":"Nationality","country":"CH"},"nicknames":[],"addresses":[]}',
+		)
+	} finally {
+		console.warn = originalWarn
+	}
+	assertStrictEquals(warnings.length, 1)
+})
+
+Deno.test(function requiredNullableAndDefaultValues() {
+	@jsonClass('Settings_requiredNullableAndDefaultValues')
+	class Settings {
+		@jsonProperty(String, { required: true })
+		id!: string
+		@jsonProperty(String, { nullable: false })
+		name?: string
+		@jsonProperty(Number, { defaultValue: 10 })
+		pageSize?: number
+		@jsonArrayProperty(String, { defaultValue: () => ['en'] })
+		languages?: string[]
+		@jsonProperty(Date, { defaultValue: () => new Date('2000-01-01') })
+		since?: Date
+	}
+
+	const jcs = new JsonClassSerializer()
+	const deserialized = jcs.deserializeFromJson('{"id":"a"}', Settings)
+	assertStrictEquals(deserialized.id, 'a')
+	assertStrictEquals(deserialized.pageSize, 10)
+	assertEquals(deserialized.languages, ['en'])
+	assertStrictEquals(deserialized.since?.getTime(), Date.UTC(2000, 0, 1))
+	assertStrictEquals(deserialized.name, undefined)
+	const other = jcs.deserializeFromJson('{"id":"b"}', Settings)
+	assertNotStrictEquals(other.languages, deserialized.languages)
+
+	const missingError = assertThrows(
+		() => jcs.deserializeFromJson('{"pageSize":5}', Settings),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(missingError.code, 'MISSING_PROPERTY')
+	assertStrictEquals(missingError.pathString, '$.id')
+	assertStrictEquals(missingError.expectedType, 'String')
+
+	const nullError = assertThrows(
+		() => jcs.deserializeFromJson('{"id":"a","name":null}', Settings),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(nullError.code, 'NULL_NOT_ALLOWED')
+	assertStrictEquals(nullError.pathString, '$.name')
+
+	const collecting = new JsonClassSerializer({ collectAllErrors: true })
+	const aggregateError = assertThrows(
+		() => collecting.deserializeFromJson('{"name":null}', Settings),
+		JsonClassSerializerAggregateError,
+	) as JsonClassSerializerAggregateError
+	assertEquals(
+		aggregateError.errors.map((error) => error.code),
+		['MISSING_PROPERTY', 'NULL_NOT_ALLOWED'],
+	)
+
+	const settings = jcs.deserializeFromJson('{"id":"a","pageSize":20}', Settings)
+	assertStrictEquals(
+		jcs.serializeToJson(settings),
+		'{"#type":"Settings_requiredNullableAndDefaultValues","id":"a","pageSize":20,"languages":["en"],"since":"2000-01-01T00:00:00.000Z"}',
+	)
+	const omitting = new JsonClassSerializer({ omitDefaultValues: true })
+	assertStrictEquals(
+		omitting.serializeToJson(settings),
+		'{"#type":"Settings_requiredNullableAndDefaultValues","id":"a","pageSize":20}',
+	)
+})
+
+Deno.test(function propertyNamesAndNamingStrategies() {
+	@jsonClass('User_propertyNamesAndNamingStrategies')
+	class User {
+		@jsonProperty(String)
+		firstName = ''
+		@jsonProperty(String, { name: 'surname', aliases: ['last_name'] })
+		lastName = ''
+		@jsonProperty(BigInt)
+		accountBalance = BigInt(0)
+		@jsonProperty(String)
+		_internalID = ''
+
+		constructor(init?: Partial<User>) {
+			if (init) Object.assign(this, init)
+		}
+	}
+	const user = new User({
+		firstName: 'John',
+		lastName: 'Doe',
+		accountBalance: BigInt(5),
+		_internalID: 'x',
+	})
+
+	const expectations = {
+		snake_case:
+			'{"#type":"User_propertyNamesAndNamingStrategies","first_name":"John","surname":"Doe","account_balance":"5","_internal_id":"x"}',
+		'kebab-case':
+			'{"#type":"User_propertyNamesAndNamingStrategies","first-name":"John","surname":"Doe","account-balance":"5","_internal-id":"x"}',
+		PascalCase:
+			'{"#type":"User_propertyNamesAndNamingStrategies","FirstName":"John","surname":"Doe","AccountBalance":"5","_InternalId":"x"}',
+		camelCase:
+			'{"#type":"User_propertyNamesAndNamingStrategies","firstName":"John","surname":"Doe","accountBalance":"5","_internalId":"x"}',
+	} as const
+	for (const [strategy, expectedJson] of Object.entries(expectations)) {
+		const jcs = new JsonClassSerializer({
+			propertyNamingStrategy: strategy as keyof typeof expectations,
+		})
+		const json = jcs.serializeToJson(user)
+		assertStrictEquals(json, expectedJson)
+		assertSimilarInstances(jcs.deserializeFromJson(json), user)
+	}
+
+	const custom = new JsonClassSerializer({
+		propertyNamingStrategy: (key) => key.toUpperCase(),
+	})
+	assertStrictEquals(
+		custom.serializeToJson(user),
+		'{"#type":"User_propertyNamesAndNamingStrategies","FIRSTNAME":"John","surname":"Doe","ACCOUNTBALANCE":"5","_INTERNALID":"x"}',
+	)
+
+	const fromAlias = new JsonClassSerializer().deserializeFromJson(
+		'{"firstName":"John","last_name":"Doe"}',
+		User,
+	)
+	assertStrictEquals(fromAlias.lastName, 'Doe')
+})
+
+Deno.test(function discriminatedSubTypes() {
+	@jsonClass('Shape_discriminatedSubTypes', {
+		discriminator: {
+			property: 'kind',
+			subTypes: () => ({ circle: Circle, square: Square }),
+		},
+	})
+	class Shape {
+		@jsonProperty(String)
+		color = 'black'
+	}
+	@jsonClass('Circle_discriminatedSubTypes')
+	class Circle extends Shape {
+		@jsonProperty(Number)
+		radius = 1
+	}
+	@jsonClass('Square_discriminatedSubTypes')
+	class Square extends Shape {
+		@jsonProperty(Number)
+		length = 1
+	}
+	class Drawing {
+		@jsonProperty(() => Shape)
+		main?: Shape
+		@jsonArrayProperty(() => Shape)
+		shapes: Shape[] = []
+	}
+
+	// third-party JSON without #type
+	const json =
+		'{"main":{"kind":"square","length":3},"shapes":[{"kind":"circle","radius":2,"color":"red"},{"color":"white"}]}'
+	const jcs = new JsonClassSerializer({ useGlobalClassRegistry: false })
+	const drawing = jcs.deserializeFromJson(json, Drawing)
+	assert(drawing.main instanceof Square)
+	assertStrictEquals(drawing.main.length, 3)
+	assert(drawing.shapes[0] instanceof Circle)
+	assertStrictEquals(drawing.shapes[0].radius, 2)
+	assertStrictEquals(drawing.shapes[0].color, 'red')
+	assertStrictEquals(drawing.shapes[1].constructor, Shape)
+
+	assertStrictEquals(
+		jcs.serializeToJson(drawing),
+		'{"main":{"kind":"square","color":"black","length":3},"shapes":[{"kind":"circle","color":"red","radius":2},{"color":"white"}]}',
+	)
+	const circle = jcs.deserializeFromJson('{"kind":"circle"}', Shape)
+	assert(circle instanceof Circle)
+
+	const error = assertThrows(
+		() => jcs.deserializeFromJson('{"main":{"kind":"triangle"}}', Drawing),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'TYPE_RESOLUTION_FAILED')
+	assertStrictEquals(error.pathString, '$.main.kind')
+})
+
+Deno.test(function versionedClassesWithMigrations() {
+	@jsonClass('Contact_versionedClassesWithMigrations', {
+		version: 3,
+		migrations: {
+			1: ({ name, ...obj }) => ({ ...obj, fullName: name }),
+			2: ({ fullName, ...obj }) => {
+				const [firstName, lastName] = fullName.split(' ')
+				return { ...obj, firstName, lastName }
+			},
+		},
+	})
+	class Contact {
+		@jsonProperty(String)
+		firstName = ''
+		@jsonProperty(String)
+		lastName = ''
+	}
+	@jsonClass('AddressBook_versionedClassesWithMigrations', { version: 1 })
+	class AddressBook {
+		@jsonArrayProperty(() => Contact)
+		contacts: Contact[] = []
+	}
+
+	const jcs = new JsonClassSerializer()
+	const book = jcs.deserializeFromJson(
+		'{"contacts":[{"name":"John Doe"},{"#version":2,"fullName":"Jane Roe"},{"#version":3,"firstName":"Max","lastName":"Muster"}]}',
+		AddressBook,
+	)
+	assertEquals(
+		book.contacts.map((contact) => [contact.firstName, contact.lastName]),
+		[
+			['John', 'Doe'],
+			['Jane', 'Roe'],
+			['Max', 'Muster'],
+		],
+	)
+	assert(book.contacts.every((contact) => contact instanceof Contact))
+
+	assertStrictEquals(
+		jcs.serializeToJson(book),
+		'{"#type":"AddressBook_versionedClassesWithMigrations","#version":1,"contacts":[{"#version":3,"firstName":"John","lastName":"Doe"},{"#version":3,"firstName":"Jane","lastName":"Roe"},{"#version":3,"firstName":"Max","lastName":"Muster"}]}',
+	)
+	assertStrictEquals(
+		new JsonClassSerializer({ versionPropertyName: 'v' }).serializeToJson(
+			book.contacts[0],
+		),
+		'{"#type":"Contact_versionedClassesWithMigrations","v":3,"firstName":"John","lastName":"Doe"}',
+	)
+
+	const error = assertThrows(
+		() => jcs.deserializeFromJson('{"contacts":[{"#version":4}]}', AddressBook),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'UNSUPPORTED_VERSION')
+	assertEquals(error.path, ['contacts', 0, '#version'])
+})
+
+Deno.test(function generateJsonSchema() {
+	@jsonClass('Tag_generateJsonSchema')
+	class Tag {
+		@jsonProperty(String, { required: true, nullable: false })
+		label = ''
+	}
+	@jsonClass('Post_generateJsonSchema', { version: 2 })
+	class Post {
+		@jsonProperty(String, { name: 'post_title', defaultValue: 'Untitled' })
+		title = 'Untitled'
+		@jsonProperty(BigInt)
+		views = 0n
+		@jsonProperty(Uint8Array)
+		thumbnail?: Uint8Array
+		@jsonSetProperty(() => Tag)
+		tags = new Set<Tag>()
+		@jsonMapProperty(String, Date)
+		edits = new Map<string, Date>()
+		@jsonProperty(() => Post)
+		previous?: Post
+	}
+
+	const jcs = new JsonClassSerializer({
+		circularDependencyReferencePropertyName: '#ref',
+		mapSerializationStrategy: 'arrayOfKeyValueObjects',
+	})
+	const schema = jcs.toJsonSchema(Post)
+	const postRef = '#/$defs/Post_generateJsonSchema'
+	const circularRef = { $ref: '#/$defs/JsonClassSerializer.CircularReference' }
+	assertStrictEquals(
+		schema.$schema,
+		'https://json-schema.org/draft/2020-12/schema',
+	)
+	assertEquals(schema.anyOf, [{ $ref: postRef }, circularRef])
+	assertEquals(schema.$defs['Post_generateJsonSchema'], {
+		type: 'object',
+		properties: {
+			'#type': { const: 'Post_generateJsonSchema' },
+			'#version': { const: 2 },
+			post_title: { type: ['string', 'null'], default: 'Untitled' },
+			views: { type: ['string', 'null'], pattern: '^-?\\d+$' },
+			thumbnail: {
+				anyOf: [
+					{ type: 'string', contentEncoding: 'base64' },
+					circularRef,
+					{ type: 'null' },
+				],
+			},
+			tags: {
+				anyOf: [
+					{
+						type: 'array',
+						items: {
+							anyOf: [{ $ref: '#/$defs/Tag_generateJsonSchema' }, circularRef],
+						},
+					},
+					circularRef,
+					{ type: 'null' },
+				],
+			},
+			edits: {
+				anyOf: [
+					{
+						type: 'array',
+						items: {
+							type: 'object',
+							properties: {
+								key: { type: 'string' },
+								value: {
+									anyOf: [{ type: 'string', format: 'date-time' }, circularRef],
+								},
+							},
+							required: ['key'],
+						},
+					},
+					circularRef,
+					{ type: 'null' },
+				],
+			},
+			previous: { anyOf: [{ $ref: postRef }, circularRef, { type: 'null' }] },
+		},
+	})
+	assertEquals(schema.$defs['Tag_generateJsonSchema'], {
+		type: 'object',
+		properties: {
+			'#type': { const: 'Tag_generateJsonSchema' },
+			label: { type: 'string' },
+		},
+		required: ['label'],
+	})
+	assertEquals(schema.$defs['JsonClassSerializer.CircularReference'].required, [
+		'#ref',
+	])
+
+	// whole registry
+	const registrySchema = new JsonClassSerializer({
+		useGlobalClassRegistry: false,
+		additionalClassesToConsider: { Tag },
+		propertyNamingStrategy: 'PascalCase',
+	}).toJsonSchema()
+	assertEquals(Object.keys(registrySchema), ['$schema', '$defs'])
+	assertEquals(registrySchema.$defs, {
+		Tag_generateJsonSchema: {
+			type: 'object',
+			properties: {
+				'#type': { const: 'Tag_generateJsonSchema' },
+				Label: { type: 'string' },
+			},
+			required: ['Label'],
+		},
+	})
+})
+
+Deno.test(function lifecycleHooks() {
+	const calls: string[] = []
+	@jsonClass('Node_lifecycleHooks')
+	class Node {
+		@jsonProperty(String)
+		name = ''
+		@jsonProperty(() => Node)
+		parent: Node | null = null
+		@jsonArrayProperty(() => Node)
+		children: Node[] = []
+		depth = 0
+
+		@onDeserialized()
+		computeDepth() {
+			calls.push(`Node.computeDepth ${this.name}`)
+			this.depth = this.parent ? this.parent.depth + 1 : 0
+		}
+
+		@onSerializing()
+		normalize() {
+			this.name = this.name.trim()
+			calls.push(`Node.normalize ${this.name}`)
+		}
+
+		@onSerialized()
+		addInfo(serialized: any) {
+			calls.push(`Node.addInfo ${this.name}`)
+			serialized.childCount = this.children.length
+		}
+	}
+	@jsonClass('Leaf_lifecycleHooks')
+	class Leaf extends Node {
+		@onDeserialized()
+		checkLeaf() {
+			calls.push(`Leaf.checkLeaf ${this.name}`)
+		}
+
+		@onSerialized()
+		replaceOutput(serialized: any) {
+			calls.push(`Leaf.replaceOutput ${this.name}`)
+			return { ...serialized, leaf: true }
+		}
+	}
+
+	const jcs = new JsonClassSerializer({
+		circularDependencyReferencePropertyName: '#ref',
+	})
+	const root = jcs.deserializeFromJson(
+		'{"#type":"Node_lifecycleHooks","name":"root","children":[{"#type":"Leaf_lifecycleHooks","name":"leaf","parent":{"#ref":[]}}]}',
+		Node,
+	)
+	// circular references are replaced when hooks are called; nested instances first, super classes first
+	assert(root.children[0] instanceof Leaf)
+	assertStrictEquals(root.children[0].parent, root)
+	assertStrictEquals(root.children[0].depth, 1)
+	assertEquals(calls, [
+		'Node.computeDepth leaf',
+		'Leaf.checkLeaf leaf',
+		'Node.computeDepth root',
+	])
+
+	calls.length = 0
+	root.name = ' root '
+	assertStrictEquals(
+		jcs.serializeToJson(root),
+		'{"#type":"Node_lifecycleHooks","name":"root","parent":null,"children":[{"#type":"Leaf_lifecycleHooks","name":"leaf","parent":{"#ref":[]},"children":[],"childCount":0,"leaf":true}],"childCount":1}',
+	)
+	assertEquals(calls, [
+		'Node.normalize root',
+		'Node.normalize leaf',
+		'Node.addInfo leaf',
+		'Leaf.replaceOutput leaf',
+		'Node.addInfo root',
+	])
+})
+
+Deno.test(function instantiationUsingCreators() {
+	@jsonClass('Money_instantiationUsingCreators', {
+		constructorParameters: ['amount', 'currency'],
+	})
+	class Money {
+		@jsonProperty(Number)
+		readonly amount: number
+		@jsonProperty(String)
+		readonly currency: string
+
+		constructor(amount: number, currency: string) {
+			if (!Number.isFinite(amount)) throw new Error('Invalid amount')
+			this.amount = amount
+			this.currency = currency
+			Object.freeze(this)
+		}
+	}
+	@jsonClass('Point_instantiationUsingCreators')
+	class Point {
+		@jsonProperty(Number)
+		readonly x: number
+		@jsonProperty(Number)
+		readonly y: number
+		@jsonProperty(String)
+		label = ''
+
+		constructor(x: number, y: number) {
+			this.x = x
+			this.y = y
+		}
+
+		@jsonCreator('x', 'y')
+		static of(x: number, y: number) {
+			return new Point(x, y)
+		}
+	}
+	@jsonClass('Range_instantiationUsingCreators')
+	class Range {
+		@jsonProperty(() => Money)
+		readonly min: Money
+		@jsonProperty(() => Money)
+		readonly max: Money
+
+		constructor(props: { min: Money; max: Money }) {
+			this.min = props.min
+			this.max = props.max
+			Object.freeze(this)
+		}
+
+		@jsonCreator()
+		static create(props: { min: Money; max: Money }) {
+			return new Range(props)
+		}
+	}
+
+	const jcs = new JsonClassSerializer()
+	const range = jcs.deserializeFromJson(
+		'{"min":{"amount":1,"currency":"EUR"},"max":{"amount":5,"currency":"EUR"}}',
+		Range,
+	)
+	assert(range instanceof Range)
+	assert(range.min instanceof Money)
+	assert(Object.isFrozen(range.max))
+	assertStrictEquals(range.max.amount, 5)
+	assertStrictEquals(
+		jcs.serializeToJson(range),
+		'{"#type":"Range_instantiationUsingCreators","min":{"amount":1,"currency":"EUR"},"max":{"amount":5,"currency":"EUR"}}',
+	)
+
+	const point = jcs.deserializeFromJson('{"x":1,"y":2,"label":"A"}', Point)
+	assert(point instanceof Point)
+	assertEquals([point.x, point.y, point.label], [1, 2, 'A'])
+
+	const error = assertThrows(
+		() => jcs.deserializeFromJson('{"min":{"amount":"1"}}', Range),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'INSTANTIATION_FAILED')
+	assertStrictEquals(error.pathString, '$.min')
+	assertStrictEquals((error.cause as Error).message, 'Invalid amount')
+})
+
+Deno.test(function serializeRecordProperties() {
+	@jsonClass('Translation_serializeRecordProperties')
+	class Translation {
+		@jsonProperty(String)
+		text = ''
+		@jsonProperty(Date)
+		updatedAt = new Date(0)
+	}
+	@jsonClass('Article_serializeRecordProperties')
+	class Article {
+		@jsonRecordProperty(() => Translation, { keyPattern: /^[a-z]{2}$/ })
+		translations: Record<string, Translation> = {}
+		@jsonRecordProperty(Number)
+		ratings: Record<string, number> = {}
+	}
+
+	const article = new Article()
+	article.translations.en = Object.assign(new Translation(), {
+		text: 'Hello',
+	})
+	article.translations.de = Object.assign(new Translation(), {
+		text: 'Hallo',
+		updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+	})
+	article.ratings = { john: 5, jane: 4 }
+
+	const jcs = new JsonClassSerializer()
+	const json = jcs.serializeToJson(article)
+	assertStrictEquals(
+		json,
+		'{"#type":"Article_serializeRecordProperties","translations":{"en":{"text":"Hello","updatedAt":"1970-01-01T00:00:00.000Z"},"de":{"text":"Hallo","updatedAt":"2024-01-01T00:00:00.000Z"}},"ratings":{"john":5,"jane":4}}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Article)
+	assert(deserialized.translations.de instanceof Translation)
+	assert(deserialized.translations.de.updatedAt instanceof Date)
+	assertSimilarInstances(deserialized, article)
+
+	const error = assertThrows(
+		() =>
+			jcs.deserializeFromJson(
+				'{"translations":{"en":{"text":"Hello"},"english":{"text":"Hello"}}}',
+				Article,
+			),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'INVALID_KEY')
+	assertStrictEquals(error.pathString, '$.translations.english')
+
+	// arrays are not records
+	const arrayJson = '{"ratings":[5,4]}'
+	assertEquals(jcs.deserializeFromJson(arrayJson, Article).ratings, [5, 4])
+	const arrayError = assertThrows(
+		() =>
+			new JsonClassSerializer({
+				validateOnDeserialization: true,
+			}).deserializeFromJson(arrayJson, Article),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(arrayError.code, 'INVALID_TYPE')
+	assertStrictEquals(arrayError.pathString, '$.ratings')
+
+	article.translations.english = new Translation()
+	assertThrows(
+		() =>
+			new JsonClassSerializer({
+				validateOnSerialization: 'throw',
+			}).serializeToJson(article),
+		JsonSerializationError,
+		'does not match pattern',
+	)
+})
+
+Deno.test(function serializeNestedCollections() {
+	@jsonClass('Tag_serializeNestedCollections')
+	class Tag {
+		@jsonProperty(String)
+		label = ''
+	}
+	@jsonClass('Board_serializeNestedCollections')
+	class Board {
+		@jsonProperty(jsonType.array(jsonType.array(Tag)))
+		grid: Tag[][] = []
+		@jsonMapProperty(String, jsonType.set(() => Tag))
+		tagsByCategory = new Map<string, Set<Tag>>()
+		@jsonProperty(jsonType.tuple(String, Number, Date))
+		lastMove: [string, number, Date] | null = null
+	}
+
+	const tag = (label: string) => Object.assign(new Tag(), { label })
+	const board = new Board()
+	board.grid = [[tag('a'), tag('b')], [tag('c')]]
+	board.tagsByCategory.set('colors', new Set([tag('red')]))
+	board.lastMove = ['e4', 1, new Date('2024-01-01T00:00:00.000Z')]
+
+	const jcs = new JsonClassSerializer({ validateOnDeserialization: true })
+	const json = jcs.serializeToJson(board)
+	assertStrictEquals(
+		json,
+		'{"#type":"Board_serializeNestedCollections","grid":[[{"label":"a"},{"label":"b"}],[{"label":"c"}]],"tagsByCategory":[["colors",[{"label":"red"}]]],"lastMove":["e4",1,"2024-01-01T00:00:00.000Z"]}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Board)
+	assert(deserialized.grid[1][0] instanceof Tag)
+	assert(deserialized.tagsByCategory.get('colors') instanceof Set)
+	assert(deserialized.lastMove![2] instanceof Date)
+	assertSimilarInstances(deserialized, board)
+
+	const error = assertThrows(
+		() =>
+			jcs.deserializeFromJson(
+				'{"grid":[[{"label":"a"}],{"label":"b"}],"lastMove":null}',
+				Board,
+			),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'INVALID_TYPE')
+	assertStrictEquals(error.pathString, '$.grid[1]')
+	assertThrows(
+		() => jcs.deserializeFromJson('{"lastMove":["e4",1]}', Board),
+		JsonDeserializationError,
+		'array of length 2',
+	)
+
+	// typed root collections
+	const tagsByName = jcs.deserializeFromJson(
+		'[["a",{"label":"a"}],["b",{"label":"b"}]]',
+		jsonType.map(String, Tag),
+	)
+	assert(tagsByName instanceof Map)
+	assert(tagsByName.get('b') instanceof Tag)
+	assertStrictEquals(tagsByName.get('b')!.label, 'b')
+	const rows = jcs.deserializeFromObject(
+		[[{ label: 'a' }], []],
+		jsonType.array(jsonType.array(Tag)),
+	)
+	assert(rows[0][0] instanceof Tag)
+	assertStrictEquals(rows[1].length, 0)
+})
+
+Deno.test(function serializeUnionProperties() {
+	@jsonClass('CreditCard_serializeUnionProperties')
+	class CreditCard {
+		@jsonProperty(String, { required: true })
+		number = ''
+	}
+	@jsonClass('BankTransfer_serializeUnionProperties')
+	class BankTransfer {
+		@jsonProperty(String, { required: true })
+		iban = ''
+	}
+	@jsonClass('Order_serializeUnionProperties')
+	class Order {
+		@jsonProperty(jsonUnion(CreditCard, BankTransfer))
+		payment: CreditCard | BankTransfer | null = null
+		@jsonProperty(
+			jsonUnion([CreditCard, BankTransfer], {
+				discriminator: (value) => (value.iban ? BankTransfer : CreditCard),
+			}),
+		)
+		refund: CreditCard | BankTransfer | null = null
+		@jsonArrayProperty(jsonUnion(Date, String))
+		deadlines: (Date | string)[] = []
+		@jsonProperty(jsonUnion(Number, jsonType.array(Number)))
+		amount: number | number[] = 0
+	}
+
+	const order = new Order()
+	order.payment = Object.assign(new BankTransfer(), { iban: 'DE89' })
+	order.refund = Object.assign(new CreditCard(), { number: '4111' })
+	order.deadlines = [new Date('2024-01-01T00:00:00.000Z'), 'next week']
+	order.amount = [10, 20]
+
+	const jcs = new JsonClassSerializer({ validateOnDeserialization: true })
+	const json = jcs.serializeToJson(order)
+	assertStrictEquals(
+		json,
+		'{"#type":"Order_serializeUnionProperties","payment":{"#type":"BankTransfer_serializeUnionProperties","iban":"DE89"},"refund":{"#type":"CreditCard_serializeUnionProperties","number":"4111"},"deadlines":["2024-01-01T00:00:00.000Z","next week"],"amount":[10,20]}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Order)
+	assert(deserialized.payment instanceof BankTransfer)
+	assert(deserialized.refund instanceof CreditCard)
+	assert(deserialized.deadlines[0] instanceof Date)
+	assertStrictEquals(deserialized.deadlines[1], 'next week')
+	assertSimilarInstances(deserialized, order)
+
+	// strings that are not dates in the serialized format stay strings
+	const addresses = jcs.deserializeFromJson(
+		'{"deadlines":["Main Street 1","1","2024-01-01"]}',
+		Order,
+	)
+	assertEquals(addresses.deadlines, ['Main Street 1', '1', '2024-01-01'])
+
+	// without #type, the discriminator function is used or the members are tried in order
+	const untagged = jcs.deserializeFromJson(
+		'{"payment":{"iban":"DE89"},"refund":{"iban":"DE90"},"amount":5}',
+		Order,
+	)
+	assert(untagged.payment instanceof BankTransfer)
+	assert(untagged.refund instanceof BankTransfer)
+	assertStrictEquals(untagged.amount, 5)
+
+	const error = assertThrows(
+		() => jcs.deserializeFromJson('{"payment":42}', Order),
+		JsonDeserializationError,
+		"tried 'CreditCard', 'BankTransfer'",
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'INVALID_TYPE')
+	assertStrictEquals(error.expectedType, 'CreditCard | BankTransfer')
+	assertStrictEquals(error.pathString, '$.payment')
+
+	order.payment = new Date() as any
+	assertThrows(
+		() =>
+			new JsonClassSerializer({
+				validateOnSerialization: 'throw',
+			}).serializeToJson(order),
+		JsonSerializationError,
+		"Expected value of type 'CreditCard | BankTransfer', got Date",
+	)
+})
+
+Deno.test(function serializeEnumProperties() {
+	enum Status {
+		Active = 1,
+		Inactive = 2,
+	}
+	enum Color {
+		Red = 'red',
+		Green = 'green',
+	}
+	@jsonClass('Account_serializeEnumProperties')
+	class Account {
+		@jsonProperty(jsonEnum(Status))
+		status = Status.Active
+		@jsonProperty(jsonEnum(Status, { serializeAs: 'name' }))
+		previousStatus = Status.Inactive
+		@jsonArrayProperty(jsonEnum(Color))
+		colors: Color[] = []
+		@jsonProperty(
+			jsonEnum(Color, { onUnknownValue: 'fallback', fallbackValue: Color.Red }),
+		)
+		favoriteColor = Color.Green
+		@jsonProperty(jsonEnum(Color, { onUnknownValue: 'keep' }))
+		rawColor: Color | string = Color.Green
+	}
+
+	const account = new Account()
+	account.colors = [Color.Green, Color.Red]
+	const jcs = new JsonClassSerializer()
+	const json = jcs.serializeToJson(account)
+	assertStrictEquals(
+		json,
+		'{"#type":"Account_serializeEnumProperties","status":1,"previousStatus":"Inactive","colors":["green","red"],"favoriteColor":"green","rawColor":"green"}',
+	)
+	assertSimilarInstances(jcs.deserializeFromJson(json, Account), account)
+
+	const deserialized = jcs.deserializeFromJson(
+		'{"previousStatus":1,"favoriteColor":"blue","rawColor":"blue"}',
+		Account,
+	)
+	assertStrictEquals(deserialized.previousStatus, Status.Active) // values are accepted as well as names
+	assertStrictEquals(deserialized.favoriteColor, Color.Red)
+	assertStrictEquals(deserialized.rawColor, 'blue')
+
+	const error = assertThrows(
+		() => jcs.deserializeFromJson('{"colors":["green","blue"]}', Account),
+		JsonDeserializationError,
+		'Unknown enum value "blue"',
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'INVALID_ENUM_VALUE')
+	assertStrictEquals(error.pathString, '$.colors[1]')
+	assertStrictEquals(error.expectedType, '"red" | "green"')
+	assertThrows(
+		() => jcs.deserializeFromJson('{"status":"Active"}', Account),
+		JsonDeserializationError,
+		'expected one of 1 | 2',
+	)
+
+	account.status = 3 as Status
+	assertThrows(
+		() =>
+			new JsonClassSerializer({
+				validateOnSerialization: 'throw',
+			}).serializeToJson(account),
+		JsonSerializationError,
+		'Unknown enum value 3',
+	)
+})
+
+Deno.test(function mapSerializationStrategyObject() {
+	enum Level {
+		Low = 1,
+		High = 2,
+	}
+	@jsonClass('Item_mapSerializationStrategyObject')
+	class Item {
+		@jsonProperty(String)
+		name = ''
+	}
+	@jsonClass('Inventory_mapSerializationStrategyObject')
+	class Inventory {
+		@jsonMapProperty(String, Item)
+		itemsByName = new Map<string, Item>()
+		@jsonMapProperty(Number, String)
+		labelsById = new Map<number, string>()
+		@jsonMapProperty(jsonEnum(Level), Number)
+		countsByLevel = new Map<Level, number>()
+		@jsonMapProperty(String, Number, {
+			mapSerializationStrategy: 'arrayOfEntries',
+		})
+		ordered = new Map<string, number>()
+	}
+
+	const inventory = new Inventory()
+	inventory.itemsByName.set('a', Object.assign(new Item(), { name: 'Apple' }))
+	inventory.labelsById.set(1, 'one').set(2, 'two')
+	inventory.countsByLevel.set(Level.High, 3)
+	inventory.ordered.set('x', 1)
+
+	const jcs = new JsonClassSerializer({ mapSerializationStrategy: 'object' })
+	const json = jcs.serializeToJson(inventory)
+	assertStrictEquals(
+		json,
+		'{"#type":"Inventory_mapSerializationStrategyObject","itemsByName":{"a":{"name":"Apple"}},"labelsById":{"1":"one","2":"two"},"countsByLevel":{"2":3},"ordered":[["x",1]]}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Inventory)
+	assert(deserialized.itemsByName.get('a') instanceof Item)
+	assertStrictEquals(deserialized.labelsById.get(2), 'two') // keys are converted back to numbers
+	assertStrictEquals(deserialized.countsByLevel.get(Level.High), 3)
+	assertSimilarInstances(deserialized, inventory)
+
+	// all forms are accepted regardless of the strategy
+	const fromArrays = new JsonClassSerializer().deserializeFromJson(
+		'{"itemsByName":[{"key":"a","value":{"name":"Apple"}}],"labelsById":[[1,"one"],[2,"two"]],"countsByLevel":[[2,3]],"ordered":{"x":1}}',
+		Inventory,
+	)
+	assertSimilarInstances(fromArrays, inventory)
+
+	// keys that cannot be used as object keys
+	@jsonClass('Schedule_mapSerializationStrategyObject')
+	class Schedule {
+		@jsonMapProperty(Item, String, { mapSerializationStrategy: 'object' })
+		notes = new Map<Item, string>()
+	}
+	const schedule = new Schedule()
+	schedule.notes.set(new Item(), 'note')
+	const error = assertThrows(
+		() => new JsonClassSerializer().serializeToJson(schedule),
+		JsonSerializationError,
+		'is not a string or number and cannot be used as key of a JSON object',
+	) as JsonSerializationError
+	assertStrictEquals(error.code, 'INVALID_KEY')
+	assertStrictEquals(error.pathString, '$.notes[0][0]')
+	assertStrictEquals(
+		new JsonClassSerializer({
+			mapSerializationFallbackStrategy: 'arrayOfEntries',
+		}).serializeToJson(schedule),
+		'{"#type":"Schedule_mapSerializationStrategyObject","notes":[[{"name":""},"note"]]}',
+	)
+})
+
+Deno.test(function serializeTypedArraysAndBinaryEncodings() {
+	const { Buffer } = globalThis as any
+	@jsonClass('Samples_serializeTypedArraysAndBinaryEncodings')
+	class Samples {
+		@jsonProperty(Int16Array)
+		int16 = new Int16Array([1, -2])
+		@jsonProperty(Float64Array)
+		float64 = new Float64Array([0.5])
+		@jsonProperty(BigInt64Array)
+		bigInt64 = new BigInt64Array([-1n])
+		@jsonProperty(Uint8ClampedArray)
+		clamped = new Uint8ClampedArray([255])
+		@jsonProperty(Uint8Array)
+		view = new Uint8Array([0, 1, 2, 3, 4]).subarray(1, 3)
+		@jsonProperty(DataView)
+		dataView = new DataView(new Uint8Array([9, 8, 7, 6]).buffer, 2, 1)
+		@jsonProperty(Buffer)
+		buffer = Buffer.from([0xca, 0xfe])
+	}
+
+	const samples = new Samples()
+	const jcs = new JsonClassSerializer({ binaryEncoding: 'hex' })
+	const json = jcs.serializeToJson(samples)
+	assertStrictEquals(
+		json,
+		'{"#type":"Samples_serializeTypedArraysAndBinaryEncodings","int16":"0100feff","float64":"000000000000e03f","bigInt64":"ffffffffffffffff","clamped":"ff","view":"0102","dataView":"07","buffer":"cafe"}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Samples)
+	assert(deserialized.int16 instanceof Int16Array)
+	assert(deserialized.buffer instanceof Buffer)
+	assertStrictEquals(deserialized.dataView.getUint8(0), 7)
+	assertSimilarInstances(deserialized, samples)
+
+	const bytes = new Uint8Array([0xfb, 0xff, 0xfe])
+	assertStrictEquals(new JsonClassSerializer().serializeToJson(bytes), '"+//+"')
+	assertStrictEquals(
+		new JsonClassSerializer({ binaryEncoding: 'base64url' }).serializeToJson(
+			bytes,
+		),
+		'"-__-"',
+	)
+	assertEquals(
+		Array.from(
+			new JsonClassSerializer({
+				binaryEncoding: 'base64url',
+			}).deserializeFromJson('"-__-"', Uint8Array),
+		),
+		[0xfb, 0xff, 0xfe],
+	)
+
+	// byte length must match the element size
+	assertThrows(
+		() =>
+			new JsonClassSerializer({
+				binaryEncoding: 'hex',
+				validateOnDeserialization: true,
+			}).deserializeFromJson('{"int16":"010203"}', Samples),
+		JsonDeserializationError,
+		"Expected value of type 'Int16Array'",
+	)
+
+	// malformed hex is rejected even without validation, also by the fallback used if Uint8Array.fromHex is not available
+	const { fromHex } = Uint8Array as any
+	try {
+		for (const nativeFromHex of [fromHex, undefined]) {
+			;(Uint8Array as any).fromHex = nativeFromHex
+			for (const hex of ['"abc"', '"0g"']) {
+				assertThrows(
+					() => jcs.deserializeFromJson(hex, Uint8Array),
+					JsonDeserializationError,
+					"Could not deserialize value of type 'Uint8Array'",
+				)
+			}
+		}
+	} finally {
+		;(Uint8Array as any).fromHex = fromHex
+	}
+})
+
+Deno.test(function serializeBuiltInTypesAndSpecialValues() {
+	@jsonClass('Resource_serializeBuiltInTypesAndSpecialValues')
+	class Resource {
+		@jsonProperty(RegExp)
+		pattern = /a\/b+/gi
+		@jsonProperty(URL)
+		url = new URL('https://example.com/path?q=1')
+		@jsonProperty(Error)
+		error?: Error
+		@jsonArrayProperty(Number)
+		numbers = [NaN, Infinity, -Infinity, -0, 1]
+		@jsonArrayProperty(String)
+		names: (string | undefined)[] = ['a', undefined]
+	}
+
+	const resource = new Resource()
+	resource.error = new RangeError('out of range', {
+		cause: new Error('root cause'),
+	})
+	const json = new JsonClassSerializer().serializeToJson(resource)
+	const obj = JSON.parse(json)
+	assertStrictEquals(obj.pattern, '/a\\/b+/gi')
+	assertStrictEquals(obj.url, 'https://example.com/path?q=1')
+	assertStrictEquals(obj.error.name, 'RangeError')
+	assertStrictEquals(obj.error.cause.message, 'root cause')
+	assertEquals(obj.numbers, [null, null, null, 0, 1])
+	assertEquals(obj.names, ['a', null])
+
+	const deserialized = new JsonClassSerializer().deserializeFromJson(
+		json,
+		Resource,
+	)
+	assert(deserialized.pattern instanceof RegExp)
+	assertStrictEquals(deserialized.pattern.source, resource.pattern.source)
+	assertStrictEquals(deserialized.pattern.flags, 'gi')
+	assert(deserialized.url instanceof URL)
+	assertStrictEquals(deserialized.url.href, resource.url.href)
+	assert(deserialized.error instanceof RangeError)
+	assertStrictEquals(deserialized.error.message, 'out of range')
+	assertStrictEquals(deserialized.error.stack, resource.error.stack)
+	assert(deserialized.error.cause instanceof Error)
+	assertStrictEquals((deserialized.error.cause as Error).message, 'root cause')
+
+	// lossless encoding of special numbers and undefined items
+	const jcs = new JsonClassSerializer({ specialValueEncoding: 'lossless' })
+	const losslessJson = jcs.serializeToJson(resource)
+	const losslessObj = JSON.parse(losslessJson)
+	assertEquals(losslessObj.numbers, ['NaN', 'Infinity', '-Infinity', '-0', 1])
+	assertEquals(losslessObj.names, ['a', { '#type': 'undefined' }])
+	const losslessDeserialized = jcs.deserializeFromJson(losslessJson, Resource)
+	assertEquals(losslessDeserialized.numbers, resource.numbers)
+	assert(Object.is(losslessDeserialized.numbers[3], -0))
+	assertEquals(losslessDeserialized.names, ['a', undefined])
+
+	// subclasses of Error are serialized with their name
+	class CustomError extends Error {
+		code = 'E_CUSTOM'
+		constructor(message: string) {
+			super(message)
+			this.name = 'CustomError'
+		}
+	}
+	const customError = new JsonClassSerializer().deserializeFromJson(
+		new JsonClassSerializer().serializeToJson(new CustomError('custom')),
+		Error,
+	)
+	assertStrictEquals(customError.name, 'CustomError')
+	assertStrictEquals(customError.message, 'custom')
+	assertStrictEquals((customError as any).code, 'E_CUSTOM')
+
+	// errors within properties of any type, e.g. untyped telemetry payloads
+	@jsonClass('Event_serializeBuiltInTypesAndSpecialValues')
+	class Event {
+		@jsonProperty(AnyType)
+		payload: any = {
+			error: new TypeError('timeout', { cause: new Error('socket closed') }),
+		}
+		@jsonAnyProperty()
+		errors: any = [new RangeError('too large')]
+	}
+	const eventJcs = new JsonClassSerializer()
+	const eventObj = eventJcs.serializeToObject(new Event()) as any
+	assertStrictEquals(eventObj.payload.error['#type'], 'Error')
+	assertStrictEquals(eventObj.errors[0]['#type'], 'Error')
+	const event = eventJcs.deserializeFromJson(JSON.stringify(eventObj), Event)
+	assert(event.payload.error instanceof TypeError)
+	assertStrictEquals(event.payload.error.message, 'timeout')
+	assert(event.payload.error.cause instanceof Error)
+	assertStrictEquals(event.payload.error.cause.message, 'socket closed')
+	assert(event.errors[0] instanceof RangeError)
+	assertStrictEquals(event.errors[0].message, 'too large')
+
+	// cycles of causes are cut where they lead back to an error already serialized
+	const selfCaused = new Error('self')
+	selfCaused.cause = selfCaused
+	const outer = new Error('outer')
+	const inner = new Error('inner', { cause: outer })
+	outer.cause = inner
+	const cyclic = eventJcs.deserializeFromJson(
+		eventJcs.serializeToJson([selfCaused, outer]),
+	) as Error[]
+	assertStrictEquals(cyclic[0].message, 'self')
+	assertStrictEquals(cyclic[0].cause, undefined)
+	assertStrictEquals((cyclic[1].cause as Error).message, 'inner')
+	assertStrictEquals((cyclic[1].cause as Error).cause, undefined)
+
+	assertThrows(
+		() =>
+			new JsonClassSerializer({
+				validateOnDeserialization: true,
+			}).deserializeFromJson('{"url":"not a url"}', Resource),
+		JsonDeserializationError,
+		"Expected value of type 'URL'",
+	)
+})
+
+Deno.test(function serializeDatesInConfigurableFormats() {
+	@jsonClass('Event_serializeDatesInConfigurableFormats')
+	class Event {
+		@jsonProperty(Date)
+		start = new Date('2000-01-02T12:34:56.789Z')
+		@jsonProperty(Date, { dateFormat: 'date' })
+		day = new Date('2000-01-02T00:00:00Z')
+		@jsonArrayProperty(Date, { dateFormat: 'iso' })
+		reminders = [new Date('2000-01-01T08:00:00Z')]
+		@jsonProperty(Temporal.Instant)
+		instant = Temporal.Instant.from('2000-01-02T12:34:56Z')
+		@jsonProperty(Temporal.PlainDate)
+		plainDate = Temporal.PlainDate.from('2000-01-02')
+		@jsonProperty(Temporal.PlainTime)
+		plainTime = Temporal.PlainTime.from('12:34:56')
+	}
+
+	const event = new Event()
+	const jcs = new JsonClassSerializer({ dateFormat: 'epochMilliseconds' })
+	const json = jcs.serializeToJson(event)
+	assertStrictEquals(
+		json,
+		'{"#type":"Event_serializeDatesInConfigurableFormats","start":946816496789,"day":"2000-01-02","reminders":["2000-01-01T08:00:00.000Z"],"instant":946816496000,"plainDate":946771200000,"plainTime":"12:34:56"}',
+	)
+	assertSimilarInstances(jcs.deserializeFromJson(json, Event), event)
+
+	const secondsObj = new JsonClassSerializer({
+		dateFormat: 'epochSeconds',
+	}).serializeToObject(event) as any
+	assertStrictEquals(secondsObj.start, 946816496)
+	assertStrictEquals(secondsObj.instant, 946816496)
+	assertStrictEquals(
+		new JsonClassSerializer({ dateFormat: 'epochSeconds' })
+			.deserializeFromObject({ start: 946816496 }, Event)
+			.start.toISOString(),
+		'2000-01-02T12:34:56.000Z',
+	)
+
+	// ISO strings are accepted regardless of the format
+	assertStrictEquals(
+		jcs
+			.deserializeFromJson('{"start":"2000-01-02T12:34:56.789Z"}', Event)
+			.start.getTime(),
+		event.start.getTime(),
+	)
+
+	// unparseable values are rejected instead of becoming invalid dates
+	const error = assertThrows(
+		() => jcs.deserializeFromJson('{"start":"garbage"}', Event),
+		JsonDeserializationError,
+	) as JsonDeserializationError
+	assertStrictEquals(error.code, 'INVALID_TYPE')
+	assertEquals(error.path, ['start'])
+	// only ISO 8601 strings are accepted, not everything `new Date` can make sense of
+	for (const value of [
+		'Room 12',
+		'Flat 3',
+		'Main Street 1',
+		'1',
+		'2000/01/02',
+	]) {
+		assertThrows(
+			() => jcs.deserializeFromJson(JSON.stringify({ start: value }), Event),
+			JsonDeserializationError,
+			"type 'Date'",
+		)
+	}
+	assertThrows(
+		() => jcs.deserializeFromJson('{"instant":"garbage"}', Event),
+		JsonDeserializationError,
+		"type 'Temporal.Instant'",
+	)
+
+	// null items are kept instead of being passed to the deserializers
+	@jsonClass('Schedule_serializeDatesInConfigurableFormats')
+	class Schedule {
+		@jsonArrayProperty(Date)
+		dates: (Date | null)[] = [new Date('2000-01-02T00:00:00Z'), null]
+		@jsonMapProperty(String, Date)
+		deadlines = new Map<string, Date | null>([['draft', null]])
+		@jsonArrayProperty(URL)
+		links: (URL | null)[] = [null]
+		@jsonArrayProperty(Error)
+		errors: (Error | null)[] = [null]
+		@jsonArrayProperty(Uint8Array)
+		attachments: (Uint8Array | null)[] = [null]
+	}
+	const schedule = new Schedule()
+	const scheduleJson = jcs.serializeToJson(schedule)
+	assertStrictEquals(
+		scheduleJson,
+		'{"#type":"Schedule_serializeDatesInConfigurableFormats","dates":[946771200000,null],"deadlines":[["draft",null]],"links":[null],"errors":[null],"attachments":[null]}',
+	)
+	assertSimilarInstances(jcs.deserializeFromJson(scheduleJson, Schedule), schedule)
+})
+
+Deno.test(function registerTypeAdapters() {
+	class Money {
+		constructor(
+			public amount: number,
+			public currency: string,
+		) {}
+		toJSON() {
+			return `${this.amount}`
+		}
+	}
+	class ForeignMoney {
+		constructor(public cents: number) {}
+	}
+	class LegacyMoney {
+		amount = 3
+		currency = 'USD'
+	}
+
+	@jsonClass('Invoice_registerTypeAdapters')
+	class Invoice {
+		@jsonProperty(Money)
+		total = new Money(12.5, 'CHF')
+		@jsonArrayProperty(Money)
+		items = [new Money(10, 'CHF')]
+		@jsonProperty(AnyType)
+		extra: any = { fee: new Money(2.5, 'EUR') }
+	}
+
+	const jcs = new JsonClassSerializer().registerAdapter(Money, {
+		name: 'Money',
+		serialize: (value) => `${value.amount} ${value.currency}`,
+		deserialize: (value: string) => {
+			const [amount, currency] = value.split(' ')
+			return new Money(Number(amount), currency)
+		},
+		test: (value) => value instanceof LegacyMoney,
+	})
+	const invoice = new Invoice()
+	const json = jcs.serializeToJson(invoice)
+	assertStrictEquals(
+		json,
+		'{"#type":"Invoice_registerTypeAdapters","total":"12.5 CHF","items":["10 CHF"],"extra":{"fee":{"#type":"Money","value":"2.5 EUR"}}}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Invoice)
+	assert(deserialized.total instanceof Money)
+	assert(deserialized.extra.fee instanceof Money)
+	assertSimilarInstances(deserialized, invoice)
+
+	// adapters registered for an instance are not used by other instances
+	assertStrictEquals(
+		new JsonClassSerializer().serializeToJson(new Money(1, 'CHF')),
+		'"1"',
+	)
+
+	// errors thrown by the adapter are reported with the path
+	const error = assertThrows(
+		() =>
+			new JsonClassSerializer()
+				.registerAdapter(Money, {
+					name: 'Money',
+					serialize: (value) => value.amount,
+					deserialize: (value) => {
+						if (typeof value != 'number') throw new TypeError('Not a number')
+						return new Money(value, 'CHF')
+					},
+				})
+				.deserializeFromJson('{"total":"abc"}', Invoice),
+		JsonDeserializationError,
+		"type 'Money'",
+	) as JsonDeserializationError
+	assertEquals(error.path, ['total'])
+
+	// global adapters
+	JsonClassSerializer.registerAdapter(ForeignMoney, {
+		name: 'ForeignMoney_registerTypeAdapters',
+		serialize: (value) => value.cents,
+		deserialize: (value: number) => new ForeignMoney(value),
+	})
+	const globalJcs = new JsonClassSerializer()
+	const foreignJson = globalJcs.serializeToJson([new ForeignMoney(150)])
+	assertStrictEquals(
+		foreignJson,
+		'[{"#type":"ForeignMoney_registerTypeAdapters","value":150}]',
+	)
+	const [foreignMoney] = globalJcs.deserializeFromJson(foreignJson) as any[]
+	assert(foreignMoney instanceof ForeignMoney)
+	assertStrictEquals(foreignMoney.cents, 150)
+
+	// values identified by the test function of an instance adapter
+	assertStrictEquals(
+		jcs.serializeToJson({ fee: new LegacyMoney() } as any),
+		'{"fee":{"#type":"Money","value":"3 USD"}}',
+	)
+
+	// values within properties of any type
+	@jsonClass('Ledger_registerTypeAdapters')
+	class Ledger {
+		@jsonAnyProperty()
+		entries: any = [new Money(5, 'USD'), 'note']
+		@jsonProperty(AnyType)
+		payments: any = [new Money(6, 'USD')]
+	}
+	const ledgerJson = jcs.serializeToJson(new Ledger())
+	assertStrictEquals(
+		ledgerJson,
+		'{"#type":"Ledger_registerTypeAdapters","entries":[{"#type":"Money","value":"5 USD"},"note"],"payments":[{"#type":"Money","value":"6 USD"}]}',
+	)
+	const ledger = jcs.deserializeFromJson(ledgerJson, Ledger)
+	assert(ledger.entries[0] instanceof Money)
+	assert(ledger.payments[0] instanceof Money)
+	assertSimilarInstances(ledger, new Ledger())
+})
+
+Deno.test(function isolatedClassRegistries() {
+	const billing = new JsonClassRegistry({
+		namespace: 'billing',
+		onDuplicateName: 'throw',
+	})
+	const shipping = new JsonClassRegistry({ namespace: 'shipping' })
+
+	@jsonClass('User', { registry: billing })
+	class BillingUser {
+		@jsonProperty()
+		iban = 'CH00'
+	}
+	@jsonClass('User', { registry: shipping })
+	class ShippingUser {
+		@jsonProperty()
+		address = 'Main Street'
+	}
+
+	assert(billing.has('billing.User'))
+	assert(!billing.has('shipping.User'))
+	assert(!JsonClassRegistry.global.has('billing.User'))
+
+	const billingJcs = new JsonClassSerializer({ classRegistry: billing })
+	const json = billingJcs.serializeToJson(new BillingUser())
+	assertStrictEquals(json, '{"#type":"billing.User","iban":"CH00"}')
+	assert(billingJcs.deserializeFromJson(json) instanceof BillingUser)
+
+	// classes of other registries are not resolved by name
+	assertThrows(
+		() =>
+			billingJcs.deserializeFromJson(
+				new JsonClassSerializer().serializeToJson(new ShippingUser()),
+			),
+		JsonDeserializationError,
+		"'shipping.User'",
+	)
+	assert(
+		new JsonClassSerializer({ classRegistry: shipping }).deserializeFromJson(
+			'{"#type":"shipping.User"}',
+		) instanceof ShippingUser,
+	)
+
+	// explicit registration
+	class Invoice {}
+	billing.register(Invoice)
+	assertStrictEquals(billing.get('billing.Invoice')?.ctor, Invoice)
+
+	// conflicting names are reported when the class is decorated
+	const error = assertThrows(() => {
+		@jsonClass('User', { registry: billing })
+		class OtherUser {}
+		return OtherUser
+	}, JsonClassSerializerError) as JsonClassSerializerError
+	assertStrictEquals(error.code, 'DUPLICATE_CLASS_NAME')
+	assertStrictEquals(billing.get('billing.User')?.ctor, BillingUser)
+
+	// by default, conflicting classes silently replace the registered class
+	const warnings: any[] = []
+	const originalWarn = console.warn
+	console.warn = (...args: any[]) => warnings.push(args)
+	try {
+		@jsonClass('User', { registry: shipping })
+		class OtherUser {}
+		assertStrictEquals(shipping.get('shipping.User')?.ctor, OtherUser)
+	} finally {
+		console.warn = originalWarn
+	}
+	assertStrictEquals(warnings.length, 0)
+})
+
+Deno.test(function restrictTypesResolvedFromInput() {
+	@jsonClass('LineItem_restrictTypesResolvedFromInput')
+	class LineItem {
+		@jsonProperty()
+		name = ''
+	}
+	@jsonClass('DiscountItem_restrictTypesResolvedFromInput')
+	class DiscountItem extends LineItem {}
+	@jsonClass('Order_restrictTypesResolvedFromInput')
+	class Order {
+		@jsonArrayProperty(LineItem)
+		items: LineItem[] = []
+		@jsonProperty(AnyType)
+		extra: any
+	}
+	@jsonClass('Command_restrictTypesResolvedFromInput')
+	class Command {}
+
+	const jcs = new JsonClassSerializer()
+	const orderJson =
+		'{"items":[{"#type":"DiscountItem_restrictTypesResolvedFromInput","name":"-10%"}]}'
+	assert(
+		jcs.deserializeFromJson(orderJson, Order).items[0] instanceof DiscountItem,
+	)
+
+	// types found in the input must be subclasses of the declared type
+	const subclassError = assertThrows(
+		() =>
+			jcs.deserializeFromJson(
+				'{"items":[{"#type":"Command_restrictTypesResolvedFromInput"}]}',
+				Order,
+			),
+		JsonDeserializationError,
+		"is not a subclass of the declared type 'LineItem_restrictTypesResolvedFromInput'",
+	) as JsonDeserializationError
+	assertStrictEquals(subclassError.code, 'TYPE_NOT_ALLOWED')
+	assertEquals(subclassError.path, ['items', 0])
+
+	// allow-list per call
+	const commandJson = '{"extra":{"#type":"Command_restrictTypesResolvedFromInput"}}'
+	assert(jcs.deserializeFromJson(commandJson, Order).extra instanceof Command)
+	assertThrows(
+		() =>
+			jcs.deserializeFromJson(commandJson, Order, {
+				allowedTypes: [Order, LineItem],
+			}),
+		JsonDeserializationError,
+		"Type 'Command_restrictTypesResolvedFromInput' is not an allowed type",
+	)
+	assertThrows(
+		() =>
+			jcs.deserializeFromJson(orderJson, Order, {
+				allowedTypes: [Order, LineItem],
+			}),
+		JsonDeserializationError,
+		'is not an allowed type',
+	)
+	assert(
+		jcs.deserializeFromJson(orderJson, Order, {
+			allowedTypes: [Order, LineItem, DiscountItem],
+		}).items[0] instanceof DiscountItem,
+	)
+
+	// deny-list per instance
+	const denyingJcs = new JsonClassSerializer({ deniedTypes: [Command] })
+	assertThrows(
+		() => denyingJcs.deserializeFromJson(commandJson, Order),
+		JsonDeserializationError,
+		'is a denied type',
+	)
+	assert(
+		denyingJcs.deserializeFromJson(orderJson, Order).items[0] instanceof
+			DiscountItem,
+	)
+})
+
+Deno.test(function deserializationLimitsAndForbiddenKeys() {
+	@jsonClass('Profile_deserializationLimitsAndForbiddenKeys')
+	class Profile {
+		@jsonProperty(AnyType)
+		settings: any = {}
+		@jsonRecordProperty(Number)
+		scores: Record<string, number> = {}
+		@jsonMapProperty(String, Number)
+		counts = new Map<string, number>()
+	}
+
+	// __proto__ is left out, other keys are ordinary data
+	const jcs = new JsonClassSerializer()
+	const pollutingJson =
+		'{"settings":{"__proto__":{"isAdmin":true},"constructor":{"prototype":{"isAdmin":true}},"theme":"dark"},"scores":{"__proto__":{"isAdmin":1},"a":1,"prototype":2}}'
+	const profile = jcs.deserializeFromJson(pollutingJson, Profile)
+	assertEquals(Object.keys(profile.settings), ['constructor', 'theme'])
+	assertEquals(profile.settings.constructor, {
+		prototype: { isAdmin: true },
+	})
+	assertStrictEquals(Object.getPrototypeOf(profile.settings), Object.prototype)
+	assertEquals(profile.scores, { a: 1, prototype: 2 })
+	assertStrictEquals(Object.getPrototypeOf(profile.scores), Object.prototype)
+	assertStrictEquals(({} as any).isAdmin, undefined)
+
+	const strictJcs = new JsonClassSerializer({ failIfForbiddenKeysFound: true })
+	const forbiddenKeyError = assertThrows(
+		() => strictJcs.deserializeFromJson(pollutingJson, Profile),
+		JsonDeserializationError,
+		"Forbidden key '__proto__' found",
+	) as JsonDeserializationError
+	assertStrictEquals(forbiddenKeyError.code, 'FORBIDDEN_KEY')
+	assertEquals(forbiddenKeyError.path, ['settings', '__proto__'])
+
+	// references must not point to prototypes
+	const referencingJcs = new JsonClassSerializer({
+		circularDependencyReferencePropertyName: '$ref',
+	})
+	assertThrows(
+		() =>
+			referencingJcs.deserializeFromJson(
+				'{"settings":{"$ref":["__proto__"]}}',
+				Profile,
+			),
+		JsonDeserializationError,
+		'forbidden key',
+	)
+	assertThrows(
+		() =>
+			referencingJcs.deserializeFromJson(
+				'{"settings":{"$ref":["constructor","prototype"]}}',
+				Profile,
+			),
+		JsonDeserializationError,
+		'forbidden key',
+	)
+
+	// limits
+	const limitedJcs = new JsonClassSerializer({
+		deserializationLimits: {
+			maxDepth: 4,
+			maxArrayLength: 3,
+			maxMapSize: 2,
+			maxStringLength: 8,
+			maxNodes: 20,
+		},
+	})
+	const assertLimitExceeded = (
+		json: string,
+		message: string,
+		path: PropertyKey[],
+	) => {
+		const error = assertThrows(
+			() => limitedJcs.deserializeFromJson(json, Profile),
+			JsonDeserializationError,
+			message,
+		) as JsonDeserializationError
+		assertStrictEquals(error.code, 'LIMIT_EXCEEDED')
+		assertEquals(error.path, path)
+	}
+	assert(
+		limitedJcs.deserializeFromJson(
+			'{"settings":{"a":[1,2,3]},"counts":[["a",1]]}',
+			Profile,
+		) instanceof Profile,
+	)
+	assertLimitExceeded(
+		'{"settings":{"a":{"b":{"c":{}}}}}',
+		'maximum depth of 4',
+		['settings', 'a', 'b', 'c'],
+	)
+	assertLimitExceeded(
+		'{"settings":{"a":[1,2,3,4]}}',
+		'Array exceeds the maximum length of 3',
+		['settings', 'a'],
+	)
+	assertLimitExceeded(
+		'{"counts":{"a":1,"b":2,"c":3}}',
+		'Map exceeds the maximum size of 2',
+		['counts'],
+	)
+	assertLimitExceeded(
+		'{"settings":{"theme":"colorfully"}}',
+		'String exceeds the maximum length of 8',
+		['settings', 'theme'],
+	)
+	assertLimitExceeded(
+		'{"settings":{"preferences":1}}',
+		'Object key exceeds the maximum length of 8',
+		['settings', 'preferences'],
+	)
+	assertLimitExceeded(
+		'{"settings":{"a":[1,2],"b":[1,2],"c":[1,2],"d":[1,2],"e":[1,2],"f":[1,2],"g":[1,2]}}',
+		'maximum number of 20 values',
+		['settings', 'g'],
+	)
+
+	const jsonLimitedJcs = new JsonClassSerializer({
+		deserializationLimits: { maxJsonLength: 20 },
+	})
+	assert(jsonLimitedJcs.deserializeFromJson('{}', Profile) instanceof Profile)
+	const jsonLengthError = assertThrows(
+		() =>
+			jsonLimitedJcs.deserializeFromJson('{"settings":{"theme":"dark"}}', Profile),
+		JsonDeserializationError,
+		'JSON exceeds the maximum length of 20',
+	) as JsonDeserializationError
+	assertStrictEquals(jsonLengthError.code, 'LIMIT_EXCEEDED')
+
+	// limits fail fast even if all errors are collected
+	limitedJcs.options.collectAllErrors = true
+	limitedJcs.options.validateOnDeserialization = true
+	assertLimitExceeded(
+		'{"scores":{"a":"x"},"counts":{"a":1,"b":2,"c":3}}',
+		'Map exceeds the maximum size of 2',
+		['counts'],
+	)
+	assertStrictEquals(
+		limitedJcs.deserializeFromJson('{"settings":{}}', Profile, {
+			deserializationLimits: {},
+		}).settings.constructor,
+		Object,
+	)
+})
+
+Deno.test(function overrideOptionsPerCall() {
+	@jsonClass('Node_overrideOptionsPerCall')
+	class Node {
+		@jsonProperty(String)
+		name: string
+		@jsonProperty(() => Node)
+		next?: Node
+		constructor(name = '') {
+			this.name = name
+		}
+	}
+
+	const jcs = new JsonClassSerializer()
+	const node = new Node('a')
+	node.next = node
+
+	assertStrictEquals(
+		jcs.serializeToJson(new Node('b'), { prettyPrint: 2 }),
+		'{\n  "#type": "Node_overrideOptionsPerCall",\n  "name": "b"\n}',
+	)
+	const json = jcs.serializeToJson(node, {
+		circularDependencyReferencePropertyName: '#ref',
+	})
+	assertStrictEquals(
+		json,
+		'{"#type":"Node_overrideOptionsPerCall","name":"a","next":{"#ref":[]}}',
+	)
+	assertStrictEquals(
+		jcs.serializeToObject(new Node('c'), { serializationPropertyName: '@type' })[
+			'@type' as keyof Node
+		],
+		'Node_overrideOptionsPerCall',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Node, {
+		circularDependencyReferencePropertyName: '#ref',
+	})
+	assertStrictEquals(deserialized.next, deserialized)
+
+	// options of the instance are unchanged, also after a failed call
+	assertThrows(
+		() =>
+			jcs.deserializeFromObject({ name: 1 }, Node, {
+				validateOnDeserialization: true,
+			}),
+		JsonDeserializationError,
+	)
+	assertStrictEquals(jcs.options.prettyPrint, false)
+	assertStrictEquals(jcs.options.circularDependencyReferencePropertyName, null)
+	assertStrictEquals(jcs.options.validateOnDeserialization, false)
+	assertStrictEquals(
+		jcs.serializeToJson(new Node('d')),
+		'{"#type":"Node_overrideOptionsPerCall","name":"d"}',
+	)
+	assertStrictEquals(jcs.deserializeFromObject({ name: 1 }, Node).name, 1)
+
+	// limits passed to a call are merged with the limits of the instance
+	const limited = new JsonClassSerializer({
+		deserializationLimits: { maxDepth: 2, maxStringLength: 3 },
+	})
+	const tooDeep = { name: 'a', next: { name: 'b', next: { name: 'c' } } }
+	const limitError = assertThrows(
+		() =>
+			limited.deserializeFromObject(tooDeep, Node, {
+				deserializationLimits: { maxStringLength: 1000 },
+			}),
+		JsonClassSerializerError,
+	) as JsonClassSerializerError
+	assertStrictEquals(limitError.code, 'LIMIT_EXCEEDED')
+	assertStrictEquals(
+		limited.deserializeFromObject({ name: 'long name' }, Node, {
+			deserializationLimits: { maxStringLength: 1000 },
+		}).name,
+		'long name',
+	)
+	assertEquals(limited.options.deserializationLimits, {
+		maxDepth: 2,
+		maxStringLength: 3,
+	})
+})
+
+Deno.test(function omitDefaultValuesWithLifecycleHooks() {
+	const calls: string[] = []
+	@jsonClass('Point_omitDefaultValuesWithLifecycleHooks')
+	class Point {
+		@jsonProperty(Number)
+		x = 0
+
+		@onSerializing()
+		beforeSerialize() {
+			calls.push(`onSerializing ${this.x}`)
+		}
+
+		@onSerialized()
+		afterSerialize() {
+			calls.push(`onSerialized ${this.x}`)
+		}
+	}
+	@jsonClass('Shape_omitDefaultValuesWithLifecycleHooks')
+	class Shape {
+		@jsonProperty(() => Point, { defaultValue: () => new Point() })
+		origin = new Point()
+		@jsonProperty(() => Point, { defaultValue: () => new Point() })
+		center = new Point()
+	}
+
+	const jcs = new JsonClassSerializer({ omitDefaultValues: true })
+	const shape = new Shape()
+	shape.center.x = 5
+	assertStrictEquals(
+		jcs.serializeToJson(shape),
+		'{"#type":"Shape_omitDefaultValuesWithLifecycleHooks","center":{"x":5}}',
+	)
+	// hooks only run for the point that is written, not for the omitted one or for the comparisons
+	assertEquals(calls, ['onSerializing 5', 'onSerialized 5'])
+})
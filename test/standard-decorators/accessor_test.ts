@@ -0,0 +1,192 @@
+import { assert, assertStrictEquals, assertThrows } from '@std/assert'
+import {
+	ClassDataSymbol,
+	getClassData,
+	jsonArrayProperty,
+	jsonClass,
+	jsonProperty,
+} from '../../src/metadata.ts'
+import { JsonClassSerializer } from '../../src/json-class-serializer.ts'
+import type { JsonPropertyDecorator } from '../../src/types.ts'
+import { assertSimilarInstances } from '../test-util.ts'
+
+// these tests only run with TC39 standard decorators (see test/deno.standard-decorators.json)
+
+Deno.test(function serializeAccessorProperties() {
+	@jsonClass('Person_serializeAccessorProperties')
+	class Person {
+		@jsonProperty()
+		accessor name: string = ''
+		@jsonArrayProperty(() => Person)
+		accessor children: Person[] = []
+
+		constructor(init?: Partial<Person>) {
+			if (init) Object.assign(this, init)
+		}
+	}
+
+	const person = new Person({
+		name: 'John',
+		children: [new Person({ name: 'Peter' })],
+	})
+	const jcs = new JsonClassSerializer()
+	const json = jcs.serializeToJson(person)
+	assertStrictEquals(
+		json,
+		'{"#type":"Person_serializeAccessorProperties","name":"John","children":[{"name":"Peter","children":[]}]}',
+	)
+	const deserialized = jcs.deserializeFromJson(json)
+	assert(deserialized instanceof Person)
+	assertSimilarInstances(deserialized, person)
+})
+
+Deno.test(function classDataStoredInDecoratorMetadata() {
+	class Animal {
+		@jsonProperty()
+		name: string = ''
+	}
+	@jsonClass('Cat_classDataStoredInDecoratorMetadata')
+	class Cat extends Animal {
+		@jsonProperty()
+		lives: number = 9
+	}
+
+	const animalMetadata = (Animal as any)[Symbol.metadata]
+	const catMetadata = (Cat as any)[Symbol.metadata]
+	assertStrictEquals(getClassData(Animal), animalMetadata[ClassDataSymbol])
+	assertStrictEquals(getClassData(Cat), catMetadata[ClassDataSymbol])
+	assertStrictEquals(getClassData(Cat)?.properties?.size, 1)
+
+	const jcs = new JsonClassSerializer()
+	const cat = new Cat()
+	cat.name = 'Tom'
+	const json = jcs.serializeToJson(cat)
+	assertStrictEquals(
+		json,
+		'{"#type":"Cat_classDataStoredInDecoratorMetadata","name":"Tom","lives":9}',
+	)
+	assertSimilarInstances(jcs.deserializeFromJson(json), cat)
+})
+
+Deno.test(function serializePrivateFields() {
+	// Deno's transpiler does not support the access functions of decorated private fields yet, therefore the decorators are applied manually here, passing the decorator context as specified by TC39
+	const decoratePrivateField = (
+		ctor: any,
+		decorator: JsonPropertyDecorator,
+		name: string,
+		access: { get(obj: any): any; set(obj: any, value: any): void },
+	) => {
+		const metadata = (ctor[Symbol.metadata] ??= {})
+		decorator(undefined, {
+			kind: 'field',
+			name,
+			private: true,
+			static: false,
+			access: { has: () => true, ...access },
+			metadata,
+			addInitializer: () => {},
+		})
+	}
+
+	class Account {
+		#owner = ''
+		#balance = 0
+		#parent: Account | null = null
+		#children: Account[] = []
+
+		static {
+			decoratePrivateField(this, jsonProperty(String), '#owner', {
+				get: (obj) => obj.#owner,
+				set: (obj, value) => (obj.#owner = value),
+			})
+			decoratePrivateField(
+				this,
+				jsonProperty(Number, { name: 'amount' }),
+				'#balance',
+				{
+					get: (obj) => obj.#balance,
+					set: (obj, value) => (obj.#balance = value),
+				},
+			)
+			decoratePrivateField(
+				this,
+				jsonProperty(() => Account),
+				'#parent',
+				{
+					get: (obj) => obj.#parent,
+					set: (obj, value) => (obj.#parent = value),
+				},
+			)
+			decoratePrivateField(
+				this,
+				jsonArrayProperty(() => Account),
+				'#children',
+				{
+					get: (obj) => obj.#children,
+					set: (obj, value) => (obj.#children = value),
+				},
+			)
+		}
+
+		static open(owner: string, balance: number, parent?: Account) {
+			const account = new Account()
+			account.#owner = owner
+			account.#balance = balance
+			if (parent) {
+				account.#parent = parent
+				parent.#children.push(account)
+			}
+			return account
+		}
+
+		get owner() {
+			return this.#owner
+		}
+		get balance() {
+			return this.#balance
+		}
+		get parent() {
+			return this.#parent
+		}
+		get children() {
+			return this.#children
+		}
+	}
+
+	const jcs = new JsonClassSerializer({
+		circularDependencyReferencePropertyName: '#ref',
+	})
+	const john = Account.open('John', 10)
+	Account.open('Peter', 5, john)
+	const json = jcs.serializeToJson(john)
+	assertStrictEquals(
+		json,
+		'{"owner":"John","amount":10,"parent":null,"children":[{"owner":"Peter","amount":5,"parent":{"#ref":[]},"children":[]}]}',
+	)
+	const deserialized = jcs.deserializeFromJson(json, Account)
+	assert(deserialized instanceof Account)
+	assertStrictEquals(deserialized.owner, 'John')
+	assertStrictEquals(deserialized.balance, 10)
+	assert(deserialized.children[0] instanceof Account)
+	assertStrictEquals(deserialized.children[0].balance, 5)
+	assertStrictEquals(deserialized.children[0].parent, deserialized)
+})
+
+Deno.test(function rejectUnsupportedMembers() {
+	assertThrows(() => {
+		class Foo {
+			@jsonProperty()
+			static counter = 0
+		}
+		return Foo
+	})
+	assertThrows(() => {
+		class Foo {
+			@jsonProperty()
+			get #secret() {
+				return ''
+			}
+		}
+		return Foo
+	})
+})
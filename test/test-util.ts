@@ -37,8 +37,8 @@ export function assertSimilarInstances(a: any, b: any): void {
 			}
 		} else if (a instanceof DataView) {
 			assertEquals(a.byteLength, b.byteLength)
-			const aView = new Uint8Array(a.buffer)
-			const bView = new Uint8Array(b.buffer)
+			const aView = new Uint8Array(a.buffer, a.byteOffset, a.byteLength)
+			const bView = new Uint8Array(b.buffer, b.byteOffset, b.byteLength)
 			for (let i = 0; i < a.byteLength; i++) {
 				assertEquals(aView[i], bView[i])
 			}